@@ -15,31 +15,47 @@
  */
 
 import {
-  formatElapsedTime,
+  AuthMode,
   FirestoreHost,
+  FirestorePersistence,
   isPlaceholderValue,
   displayLabelFromHost,
   hostNameFromHost
 } from '../common/util.js';
-import {
-  getFirestore,
-  setHasher,
-  setBase64Encode
-} from '../common/firestore_helper.js';
-import { runTheTest } from '../run_the_test.js';
+import { setHasher, setBase64Encode } from '../common/firestore_helper.js';
+import { testScenarios } from '../scenarios/index.js';
 import {
   CancellationToken,
   CancellationTokenSource
 } from '../common/cancellation_token.js';
-import { log, resetStartTime } from '../common/logging.js';
-import { TestEnvironment } from '../common/test_environment';
-import { initialize as initializeLogging } from './logging.js';
+import {
+  log,
+  logError,
+  logWarn,
+  LogLevel,
+  resetStartTime
+} from '../common/logging.js';
+import { displayLabelFromTestOutcome, runTest } from '../common/test_runner.js';
+import { runTestRepeatedly } from '../common/repeated_test_runner.js';
+import {
+  createLogExportHeader,
+  downloadLogs,
+  LogExportFormat
+} from './log_export.js';
+import {
+  clearLoggedMessages,
+  getLoggedMessages,
+  initialize as initializeLogging
+} from './logging.js';
 import { SettingValue, SettingsStorage, Settings } from '../common/settings.js';
+import { SettingsProfiles } from '../common/settings_profiles.js';
+import { createShareableLink, UrlSettingsOverrides } from './url_settings.js';
 import {
   initializeDynamicReplaceSpanTexts,
   load as loadUi,
   MainUi,
   MainUiCallbacks,
+  LogFilter,
   LoggingUi,
   LoggingUiCallbacks,
   SettingsUi,
@@ -48,7 +64,6 @@ import {
 } from './ui';
 
 import { Md5 } from 'ts-closure-library/lib/crypt/md5';
-import { Firestore } from '@firebase/firestore';
 
 class SessionStorageSettingsStorage implements SettingsStorage {
   clear(key: string): void {
@@ -64,54 +79,95 @@ class SessionStorageSettingsStorage implements SettingsStorage {
   }
 }
 
+class LocalStorageSettingsStorage implements SettingsStorage {
+  clear(key: string): void {
+    window?.localStorage?.removeItem(key);
+  }
+
+  load(key: string): string | null {
+    return window?.localStorage?.getItem(key) ?? null;
+  }
+
+  save(key: string, value: string): void {
+    window?.localStorage?.setItem(key, value);
+  }
+}
+
 const sessionStorageSettingsStorage = new SessionStorageSettingsStorage();
 
+// The named profiles are stored in local storage so that they are shared by
+// all tabs; the default profile, and which profile is active, are stored in
+// session storage, as the settings were before profiles existed.
+const settingsProfiles = new SettingsProfiles(
+  new LocalStorageSettingsStorage(),
+  sessionStorageSettingsStorage
+);
+
+// The settings specified in the page's URL, which override those of the active
+// profile until the page is reloaded.
+const urlSettingsOverrides = UrlSettingsOverrides.fromUrl(
+  new URL(window.location.href),
+  Settings.load(sessionStorageSettingsStorage).all.map(setting => setting.key)
+);
+
 function loadSettings(): Settings {
-  return Settings.load(sessionStorageSettingsStorage);
+  return Settings.load(
+    urlSettingsOverrides.wrap(settingsProfiles.activeStorage)
+  );
 }
 
 /**
- * Callback invoked whenever the "Enable Debug Logging" checkbox's checked state
- * changes.
+ * Callback invoked whenever the "Run Test" button is clicked.
  *
- * Sets up the `Firestore` instance and invoke the `runTheTest()` function from
- * `run_the_test.ts`.
+ * Sets up the `Firestore` instance and runs the test that is selected in the
+ * UI, as many times as requested in the UI.
  */
 async function go(
   ui: MainUi,
   cancellationToken: CancellationToken
 ): Promise<void> {
-  const startTime: DOMHighResTimeStamp = performance.now();
-
-  log('Test Starting');
+  ui.setRunTestButtonEnabled(false);
+  ui.setCancelTestButtonEnabled(true);
+  ui.setTestOutcome(null);
   try {
-    ui.setRunTestButtonEnabled(false);
-    ui.setCancelTestButtonEnabled(true);
-
-    const settings = loadSettings();
-    const dbInfo = getFirestore(settings);
-    const env: TestEnvironment = {
-      ...dbInfo,
-      cancellationToken,
-      getFirestore(instanceId: number): Firestore {
-        return getFirestore(settings, instanceId).db;
-      }
-    };
-
-    await runTheTest(env.db, env);
-  } catch (e) {
-    if (e instanceof Error) {
-      log(`ERROR: ${e.message}`, { alsoLogToConsole: false });
-      console.log(e.stack);
+    const runCount = ui.runCount;
+    if (runCount === 1) {
+      const result = await runTest(testScenarios, loadSettings(), {
+        cancellationToken,
+        terminateFirestore: false,
+        profileName: settingsProfiles.activeName
+      });
+      ui.setTestOutcome(
+        result.outcome,
+        displayLabelFromTestOutcome(result.outcome),
+        result.cancellationReason ?? ''
+      );
     } else {
-      log(`ERROR: ${e}`);
+      const result = await runTestRepeatedly(testScenarios, loadSettings(), {
+        cancellationToken,
+        maxRunCount: runCount,
+        untilFailure: ui.runUntilFailure,
+        profileName: settingsProfiles.activeName
+      });
+      ui.setTestOutcome(
+        result.outcome,
+        `${displayLabelFromTestOutcome(result.outcome)} ` +
+          `(${result.failedCount} of ${result.runs.length} failed)`
+      );
     }
+  } catch (e) {
+    // The test itself does not throw, so this is an unexpected error in this
+    // application; log its stack trace to the console only.
+    const message = e instanceof Error ? e.message : `${e}`;
+    logError(`Running the test failed unexpectedly: ${message}`, {
+      alsoLogToConsole: false
+    });
+    console.error(e);
+    ui.setTestOutcome('failed', displayLabelFromTestOutcome('failed'), message);
   } finally {
     ui.setRunTestButtonEnabled(true);
+    ui.setCancelTestButtonEnabled(false);
   }
-  const endTime: DOMHighResTimeStamp = performance.now();
-  const elapsedTimeStr = formatElapsedTime(startTime, endTime);
-  log(`Test completed in ${elapsedTimeStr}`);
 }
 
 class MainUiCallbacksImpl implements MainUiCallbacks {
@@ -120,13 +176,17 @@ class MainUiCallbacksImpl implements MainUiCallbacks {
   constructor(private readonly ui: MainUi) {}
 
   cancelTest(): void {
+    // Cancel before logging so that the message logged upon cancellation
+    // reports the operation that the test was performing.
+    this.cancellationTokenSource?.cancel(
+      'the "Cancel Test" button was clicked'
+    );
     log('Test cancellation requested');
-    this.cancellationTokenSource?.cancel();
   }
 
   runTest(): void {
     if (this.cancellationTokenSource) {
-      this.cancellationTokenSource.cancel();
+      this.cancellationTokenSource.cancel('another test was started');
     }
     this.cancellationTokenSource = new CancellationTokenSource();
 
@@ -136,6 +196,12 @@ class MainUiCallbacksImpl implements MainUiCallbacks {
   showSettings(): void {
     window.location.hash = '#settings';
   }
+
+  onTestScenarioChange(newValue: string): void {
+    const settings = loadSettings();
+    settings.testName.setValue(newValue);
+    settings.saveAll();
+  }
 }
 
 class LoggingUiCallbacksImpl implements LoggingUiCallbacks {
@@ -144,21 +210,201 @@ class LoggingUiCallbacksImpl implements LoggingUiCallbacks {
   clearLogs(): void {
     this.ui.clearLogOutput();
     this.ui.setClearLogsButtonVisible(false);
+    clearLoggedMessages();
     resetStartTime();
   }
+
+  downloadLogs(format: LogExportFormat): void {
+    const header = createLogExportHeader(loadSettings());
+    downloadLogs(format, header, getLoggedMessages());
+  }
+
+  onShowTaggedLinesChange(newChecked: boolean): void {
+    this.ui.setTaggedLinesVisible(newChecked);
+  }
+
+  onLogFilterChange(newFilter: LogFilter): void {
+    this.ui.setLogFilter(newFilter);
+  }
+
+  onFollowTailChange(newChecked: boolean): void {
+    this.ui.setFollowTail(newChecked);
+  }
 }
 
 class SettingsUiCallbacksImpl implements SettingsUiCallbacks {
-  private readonly settings = loadSettings();
+  private settings = loadSettings();
+
+  constructor(private readonly ui: SettingsUi) {}
+
+  onProfileActivate(selectedName: string): void {
+    this.updateProfiles(() => {
+      settingsProfiles.activate(selectedName);
+      log(`Activated settings profile ${selectedName}`);
+    });
+  }
+
+  onProfileCreate(): void {
+    const newName = window.prompt('Name of the new settings profile:');
+    if (newName === null) {
+      return;
+    }
+    this.updateProfiles(() => {
+      settingsProfiles.create(newName);
+      settingsProfiles.activate(newName);
+      log(`Created settings profile ${newName}`);
+    });
+  }
+
+  onProfileRename(selectedName: string): void {
+    const newName = window.prompt(
+      `New name of the settings profile ${selectedName}:`,
+      selectedName
+    );
+    if (newName === null || newName === selectedName) {
+      return;
+    }
+    this.updateProfiles(() => {
+      settingsProfiles.rename(selectedName, newName);
+      log(`Renamed settings profile ${selectedName} to ${newName}`);
+    });
+  }
+
+  onProfileDuplicate(selectedName: string): void {
+    const newName = window.prompt(
+      `Name of the copy of the settings profile ${selectedName}:`,
+      `${selectedName} copy`
+    );
+    if (newName === null) {
+      return;
+    }
+    this.updateProfiles(() => {
+      settingsProfiles.duplicate(selectedName, newName);
+      settingsProfiles.activate(newName);
+      log(`Duplicated settings profile ${selectedName} as ${newName}`);
+    });
+  }
+
+  onProfileDelete(selectedName: string): void {
+    if (!window.confirm(`Delete the settings profile ${selectedName}?`)) {
+      return;
+    }
+    this.updateProfiles(() => {
+      settingsProfiles.delete(selectedName);
+      log(`Deleted settings profile ${selectedName}`);
+    });
+  }
+
+  /**
+   * Performs an operation on the settings profiles then, since it may have
+   * changed the active profile, reloads the settings and the UI from the
+   * active profile, discarding any unsaved changes.
+   */
+  private updateProfiles(operation: () => void): void {
+    try {
+      operation();
+    } catch (e) {
+      window.alert(e instanceof Error ? e.message : `${e}`);
+      return;
+    }
+    this.settings = loadSettings();
+    this.ui.show(new SettingsUiValuesImpl());
+  }
+
+  onLogLevelChange(newValue: LogLevel): void {
+    this.settings.logLevel.setValue(newValue);
+  }
 
   onDebugLoggingChange(newChecked: boolean): void {
     this.settings.debugLogEnabled.setValue(newChecked);
   }
 
+  onCleanupEnabledChange(newChecked: boolean): void {
+    this.settings.cleanupEnabled.setValue(newChecked);
+  }
+
   onFirestoreHostChange(newValue: FirestoreHost): void {
     this.settings.host.setValue(newValue);
   }
 
+  onCustomHostChange(newValue: string): void {
+    SettingsUiCallbacksImpl.onTextBoxChanged(
+      newValue,
+      this.settings.customHost
+    );
+  }
+
+  onCustomHostSslChange(newChecked: boolean): void {
+    this.settings.customHostSsl.setValue(newChecked);
+  }
+
+  onPersistenceChange(newValue: FirestorePersistence): void {
+    this.settings.persistence.setValue(newValue);
+  }
+
+  onCacheSizeBytesChange(newValue: string): void {
+    SettingsUiCallbacksImpl.onTextBoxChanged(
+      newValue,
+      this.settings.cacheSizeBytes
+    );
+  }
+
+  onTimeoutSecondsChange(newValue: string): void {
+    SettingsUiCallbacksImpl.onTextBoxChanged(newValue, this.settings.timeout);
+  }
+
+  onClientCountChange(newValue: string): void {
+    SettingsUiCallbacksImpl.onTextBoxChanged(
+      newValue,
+      this.settings.clientCount
+    );
+  }
+
+  onForceLongPollingChange(newChecked: boolean): void {
+    this.settings.forceLongPolling.setValue(newChecked);
+  }
+
+  onAutoDetectLongPollingChange(newChecked: boolean): void {
+    this.settings.autoDetectLongPolling.setValue(newChecked);
+  }
+
+  onUseFetchStreamsChange(newChecked: boolean): void {
+    this.settings.useFetchStreams.setValue(newChecked);
+  }
+
+  onAuthModeChange(newValue: AuthMode): void {
+    this.settings.authMode.setValue(newValue);
+  }
+
+  onAuthUidChange(newValue: string): void {
+    SettingsUiCallbacksImpl.onTextBoxChanged(newValue, this.settings.authUid);
+  }
+
+  onAuthCustomClaimsChange(newValue: string): void {
+    SettingsUiCallbacksImpl.onTextBoxChanged(
+      newValue,
+      this.settings.authCustomClaims
+    );
+  }
+
+  onAuthEmailChange(newValue: string): void {
+    SettingsUiCallbacksImpl.onTextBoxChanged(newValue, this.settings.authEmail);
+  }
+
+  onAuthPasswordChange(newValue: string): void {
+    SettingsUiCallbacksImpl.onTextBoxChanged(
+      newValue,
+      this.settings.authPassword
+    );
+  }
+
+  onAuthEmulatorHostChange(newValue: string): void {
+    SettingsUiCallbacksImpl.onTextBoxChanged(
+      newValue,
+      this.settings.authEmulatorHost
+    );
+  }
+
   onProjectIdChange(newValue: string): void {
     SettingsUiCallbacksImpl.onTextBoxChanged(newValue, this.settings.projectId);
   }
@@ -181,6 +427,20 @@ class SettingsUiCallbacksImpl implements SettingsUiCallbacks {
     }
   }
 
+  onCopyShareableLink(includeSecrets: boolean, autorun: boolean): void {
+    const link = createShareableLink(
+      new URL(window.location.href),
+      this.settings,
+      { includeSecrets, autorun }
+    );
+    navigator.clipboard.writeText(link).then(
+      () => log(`Copied shareable link to the clipboard: ${link}`),
+      // The clipboard is unavailable in insecure contexts, such as when served
+      // over http from a host other than localhost.
+      () => window.prompt('Copy the shareable link:', link)
+    );
+  }
+
   save(): void {
     const savedSettings = this.settings.saveAll();
 
@@ -207,14 +467,90 @@ class SettingsUiCallbacksImpl implements SettingsUiCallbacks {
 class SettingsUiValuesImpl implements SettingsUiValues {
   private readonly settings = loadSettings();
 
+  get profileNames(): Array<string> {
+    return settingsProfiles.names;
+  }
+
+  get activeProfileName(): string {
+    return settingsProfiles.activeName;
+  }
+
+  get logLevel(): LogLevel {
+    return this.settings.logLevel.value;
+  }
+
   get debugLoggingEnabled(): boolean {
     return this.settings.debugLogEnabled.value;
   }
 
+  get cleanupEnabled(): boolean {
+    return this.settings.cleanupEnabled.value;
+  }
+
   get firestoreHost(): FirestoreHost | null {
     return this.settings.host.value;
   }
 
+  get customHost(): string {
+    return this.settings.customHost.value;
+  }
+
+  get customHostSsl(): boolean {
+    return this.settings.customHostSsl.value;
+  }
+
+  get persistence(): FirestorePersistence {
+    return this.settings.persistence.value;
+  }
+
+  get cacheSizeBytes(): string {
+    return this.settings.cacheSizeBytes.value;
+  }
+
+  get timeoutSeconds(): string {
+    return this.settings.timeout.value;
+  }
+
+  get clientCount(): string {
+    return this.settings.clientCount.value;
+  }
+
+  get forceLongPolling(): boolean {
+    return this.settings.forceLongPolling.value;
+  }
+
+  get autoDetectLongPolling(): boolean {
+    return this.settings.autoDetectLongPolling.value;
+  }
+
+  get useFetchStreams(): boolean {
+    return this.settings.useFetchStreams.value;
+  }
+
+  get authMode(): AuthMode {
+    return this.settings.authMode.value;
+  }
+
+  get authUid(): string {
+    return this.settings.authUid.value;
+  }
+
+  get authCustomClaims(): string {
+    return this.settings.authCustomClaims.value;
+  }
+
+  get authEmail(): string {
+    return this.settings.authEmail.value;
+  }
+
+  get authPassword(): string {
+    return this.settings.authPassword.value;
+  }
+
+  get authEmulatorHost(): string {
+    return this.settings.authEmulatorHost.value;
+  }
+
   get projectId(): string | null {
     return SettingsUiValuesImpl.getValueIgnoringPlaceholder(
       this.settings.projectId.value
@@ -252,6 +588,7 @@ function loadSpanTextByDynamicReplaceKeyMap(): Map<string, string> {
   map.set('HOST_LABEL_EMULATOR', displayLabelFromHost('emulator'));
   map.set('HOST_LABEL_NIGHTLY', displayLabelFromHost('nightly'));
   map.set('HOST_LABEL_QA', displayLabelFromHost('qa'));
+  map.set('HOST_LABEL_CUSTOM', displayLabelFromHost('custom'));
   return map;
 }
 
@@ -267,6 +604,22 @@ function handleWindowHashChange(mainUi: MainUi, settingsUi: SettingsUi): void {
   }
 }
 
+/**
+ * Logs the settings whose values are overridden by the page's URL, if any, and
+ * the query parameters of the URL that were not recognized.
+ */
+function logUrlSettingsOverrides(): void {
+  const overriddenKeys = urlSettingsOverrides.keys;
+  for (const setting of loadSettings().displayValues) {
+    if (overriddenKeys.includes(setting.key)) {
+      log(`${setting.name} set to ${setting.value} by the page URL`);
+    }
+  }
+  for (const key of urlSettingsOverrides.unknownKeys) {
+    logWarn(`Ignoring unknown query parameter in the page URL: ${key}`);
+  }
+}
+
 /** Registers callbacks and initializes state of the HTML UI. */
 function initialize(): void {
   setHasher(new Md5());
@@ -275,12 +628,19 @@ function initialize(): void {
   const { main: mainUi, logging: loggingUi, settings: settingsUi } = loadUi();
   initializeLogging(loggingUi);
   initializeDynamicReplaceSpanTexts(loadSpanTextByDynamicReplaceKeyMap());
-  mainUi.registerCallbacks(new MainUiCallbacksImpl(mainUi));
+  mainUi.setTestScenarios(testScenarios.all, loadSettings().testName.value);
+  const mainUiCallbacks = new MainUiCallbacksImpl(mainUi);
+  mainUi.registerCallbacks(mainUiCallbacks);
   loggingUi.registerCallbacks(new LoggingUiCallbacksImpl(loggingUi));
-  settingsUi.registerCallbacks(new SettingsUiCallbacksImpl());
+  settingsUi.registerCallbacks(new SettingsUiCallbacksImpl(settingsUi));
 
   window.onhashchange = () => handleWindowHashChange(mainUi, settingsUi);
   handleWindowHashChange(mainUi, settingsUi);
+
+  logUrlSettingsOverrides();
+  if (urlSettingsOverrides.autorun) {
+    mainUiCallbacks.runTest();
+  }
 }
 
 // Call initialize() to get everything wired up.
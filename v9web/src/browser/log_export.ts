@@ -0,0 +1,135 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SDK_VERSION } from '@firebase/app';
+
+import { LogMessage } from '../common/logging';
+import { SettingDisplayValue, Settings } from '../common/settings';
+
+/** The formats in which logs can be exported. */
+export type LogExportFormat = 'text' | 'json';
+
+/** The information included at the top of exported logs. */
+export interface LogExportHeader {
+  /** The time at which the logs were exported, as an ISO 8601 string. */
+  readonly exportedAt: string;
+
+  /** The version of the Firebase JavaScript SDK. */
+  readonly sdkVersion: string;
+
+  /** The browser's user agent string. */
+  readonly userAgent: string;
+
+  /** The effective settings, with secret values omitted. */
+  readonly settings: Array<SettingDisplayValue>;
+}
+
+/**
+ * Creates the header to include at the top of exported logs.
+ *
+ * @param settings the settings with which the logged test was run.
+ */
+export function createLogExportHeader(settings: Settings): LogExportHeader {
+  return {
+    exportedAt: new Date().toISOString(),
+    sdkVersion: SDK_VERSION,
+    userAgent: navigator.userAgent,
+    settings: settings.displayValues
+  };
+}
+
+/**
+ * Formats logged messages as plain text, one message per line, preceded by
+ * the given header.
+ *
+ * The lines of multi-line messages after the first are indented so that they
+ * are aligned with the first line's text.
+ */
+export function formatLogsAsText(
+  header: LogExportHeader,
+  messages: Array<LogMessage>
+): string {
+  const lines: Array<string> = [
+    `# Exported at: ${header.exportedAt}`,
+    `# Firebase SDK version: ${header.sdkVersion}`,
+    `# User agent: ${header.userAgent}`,
+    `# Settings:`,
+    ...header.settings.map(setting => `#   ${setting.name}: ${setting.value}`),
+    ''
+  ];
+
+  for (const message of messages) {
+    const prefix =
+      `${message.timestamp} ` + message.level.toUpperCase().padEnd(5) + ' ';
+    const text =
+      (message.tag === undefined ? '' : `[${message.tag}] `) + message.text;
+    const indent = ' '.repeat(prefix.length);
+    text.split('\n').forEach((line, index) => {
+      lines.push((index === 0 ? prefix : indent) + line);
+    });
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Formats logged messages as a JSON object with the given header.
+ */
+export function formatLogsAsJson(
+  header: LogExportHeader,
+  messages: Array<LogMessage>
+): string {
+  const exportedMessages = messages.map(message => ({
+    timestamp: message.timestamp,
+    level: message.level,
+    tag: message.tag,
+    text: message.text,
+    options: message.options
+  }));
+  return JSON.stringify({ ...header, messages: exportedMessages }, null, 2);
+}
+
+/**
+ * Prompts the browser to download the given logged messages as a file.
+ *
+ * @param format the format in which to download the messages.
+ * @param header the header to include at the top of the file.
+ * @param messages the messages to download.
+ */
+export function downloadLogs(
+  format: LogExportFormat,
+  header: LogExportHeader,
+  messages: Array<LogMessage>
+): void {
+  const contents =
+    format === 'text'
+      ? formatLogsAsText(header, messages)
+      : formatLogsAsJson(header, messages);
+  const mimeType = format === 'text' ? 'text/plain' : 'application/json';
+  const extension = format === 'text' ? 'txt' : 'json';
+  const fileName =
+    `v9web-logs-${header.exportedAt.replace(/[:.]/g, '-')}.` + extension;
+
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  try {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
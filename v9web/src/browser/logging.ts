@@ -14,9 +14,15 @@
  * limitations under the License.
  */
 
-import { LogMessage, setLogFunction } from '../common/logging.js';
+import { LogLevel, LogMessage, setLogFunction } from '../common/logging.js';
 import { LoggingUi } from './ui';
 
+/**
+ * The messages that have been logged since the logs were last cleared, so that
+ * they can be downloaded.
+ */
+const loggedMessages: Array<LogMessage> = [];
+
 /** Initialize the logging framework with browser logging. */
 export function initialize(ui: LoggingUi): void {
   setLogFunction((message: LogMessage) => {
@@ -28,13 +34,52 @@ export interface LogOptions {
   alsoLogToConsole: boolean;
 }
 
-/** Logs a message to the UI and, by default, console.log(). */
+/** Returns the messages that have been logged since the last clear. */
+export function getLoggedMessages(): Array<LogMessage> {
+  return Array.from(loggedMessages);
+}
+
+/** Forgets the messages that have been logged. */
+export function clearLoggedMessages(): void {
+  loggedMessages.length = 0;
+}
+
+/**
+ * Logs a message to the UI and, by default (unless it is tagged), the console.
+ */
 function browserLog(ui: LoggingUi, message: LogMessage): void {
+  loggedMessages.push(message);
   ui.setClearLogsButtonVisible(true);
-  ui.appendToLogOutput(message.text, message.timestamp);
+  ui.appendToLogOutput(
+    message.text,
+    message.timestamp,
+    message.level,
+    message.tag
+  );
 
   const options = message.options as Partial<LogOptions>;
-  if (options?.alsoLogToConsole ?? true) {
-    console.log(`${message.timestamp} ${message.text}`);
+  // Tagged messages were already written to the console by their component.
+  if (message.tag === undefined && (options?.alsoLogToConsole ?? true)) {
+    consoleFunctionFromLogLevel(message.level)(
+      `${message.timestamp} ` +
+        (message.tag === undefined ? '' : `[${message.tag}] `) +
+        message.text
+    );
+  }
+}
+
+/** Returns the `console` function with which to log a message. */
+function consoleFunctionFromLogLevel(
+  level: LogLevel
+): (message: string) => void {
+  switch (level) {
+    case 'debug':
+      return console.debug;
+    case 'info':
+      return console.log;
+    case 'warn':
+      return console.warn;
+    case 'error':
+      return console.error;
   }
 }
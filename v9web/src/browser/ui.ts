@@ -14,7 +14,11 @@
  * limitations under the License.
  */
 
-import { FirestoreHost } from '../common/util';
+import { LOG_LEVELS, LogLevel } from '../common/logging.js';
+import { LogExportFormat } from './log_export';
+import { AuthMode, FirestoreHost, FirestorePersistence } from '../common/util';
+import { TestScenario } from '../common/test_scenario';
+import { TestOutcome } from '../common/test_runner';
 
 /** The HTML elements in the UI with which this application interacts. */
 interface HtmlElements {
@@ -31,11 +35,36 @@ interface MainHtmlElements {
     cancelTest: HTMLButtonElement;
     settings: HTMLButtonElement;
   };
+
+  selects: {
+    test: HTMLSelectElement;
+  };
+
+  checkboxes: {
+    runUntilFailure: HTMLInputElement;
+  };
+
+  runCount: HTMLInputElement;
+  testDescription: HTMLElement;
+  testOutcome: HTMLElement;
 }
 
 interface LoggingHtmlElements {
   buttons: {
     clearLogs: HTMLButtonElement;
+    downloadLogsText: HTMLButtonElement;
+    downloadLogsJson: HTMLButtonElement;
+  };
+
+  checkboxes: {
+    showTaggedLines: HTMLInputElement;
+    filterIsRegex: HTMLInputElement;
+    followTail: HTMLInputElement;
+  };
+
+  filter: {
+    text: HTMLInputElement;
+    minimumLevel: HTMLSelectElement;
   };
 
   lines: HTMLElement;
@@ -43,7 +72,6 @@ interface LoggingHtmlElements {
   lineTemplate: {
     element: HTMLElement;
     timestamp: HTMLElement;
-    message: HTMLElement;
   };
 }
 
@@ -54,16 +82,67 @@ interface SettingsHtmlElements {
     save: HTMLButtonElement;
     cancel: HTMLButtonElement;
   };
+  shareableLink: {
+    copy: HTMLButtonElement;
+    includeSecrets: HTMLInputElement;
+    autorun: HTMLInputElement;
+  };
+  profiles: {
+    select: HTMLSelectElement;
+    buttons: {
+      activate: HTMLButtonElement;
+      create: HTMLButtonElement;
+      rename: HTMLButtonElement;
+      duplicate: HTMLButtonElement;
+      delete: HTMLButtonElement;
+    };
+  };
+  logLevelOptions: {
+    debug: HTMLInputElement;
+    info: HTMLInputElement;
+    warn: HTMLInputElement;
+    error: HTMLInputElement;
+  };
   checkboxes: {
     debugLogging: HTMLInputElement;
+    cleanupEnabled: HTMLInputElement;
+    forceLongPolling: HTMLInputElement;
+    autoDetectLongPolling: HTMLInputElement;
+    useFetchStreams: HTMLInputElement;
   };
   firestoreHostOptions: {
     prod: HTMLInputElement;
     emulator: HTMLInputElement;
     nightly: HTMLInputElement;
     qa: HTMLInputElement;
+    custom: HTMLInputElement;
+  };
+  customHost: {
+    hostName: HTMLInputElement;
+    ssl: HTMLInputElement;
+  };
+  persistenceOptions: {
+    memory: HTMLInputElement;
+    indexeddb: HTMLInputElement;
+    multiTab: HTMLInputElement;
+  };
+  authModeOptions: {
+    none: HTMLInputElement;
+    anonymous: HTMLInputElement;
+    customClaims: HTMLInputElement;
+    emailPassword: HTMLInputElement;
+  };
+  authTextBoxes: {
+    uid: HTMLInputElement;
+    customClaims: HTMLInputElement;
+    email: HTMLInputElement;
+    password: HTMLInputElement;
+    emulatorHost: HTMLInputElement;
   };
   textBoxes: {
+    cacheSizeBytes: HTMLInputElement;
+    timeoutSeconds: HTMLInputElement;
+    clientCount: HTMLInputElement;
     projectId: HTMLInputElement;
     apiKey: HTMLInputElement;
   };
@@ -89,18 +168,37 @@ function loadHtmlElements(): HtmlElements {
         runTest: loadElement<HTMLButtonElement>('btnRunTest'),
         cancelTest: loadElement<HTMLButtonElement>('btnCancelTest'),
         settings: loadElement<HTMLButtonElement>('btnSettings')
-      }
+      },
+      selects: {
+        test: loadElement<HTMLSelectElement>('selTest')
+      },
+      checkboxes: {
+        runUntilFailure: loadElement<HTMLInputElement>('chkRunUntilFailure')
+      },
+      runCount: loadElement<HTMLInputElement>('txtRunCount'),
+      testDescription: loadElement('divTestDescription'),
+      testOutcome: loadElement('spnTestOutcome')
     },
 
     logging: {
       buttons: {
-        clearLogs: loadElement<HTMLButtonElement>('btnClearLogs')
+        clearLogs: loadElement<HTMLButtonElement>('btnClearLogs'),
+        downloadLogsText: loadElement<HTMLButtonElement>('btnDownloadLogsText'),
+        downloadLogsJson: loadElement<HTMLButtonElement>('btnDownloadLogsJson')
+      },
+      checkboxes: {
+        showTaggedLines: loadElement<HTMLInputElement>('chkShowTaggedLogLines'),
+        filterIsRegex: loadElement<HTMLInputElement>('chkLogFilterIsRegex'),
+        followTail: loadElement<HTMLInputElement>('chkFollowLogTail')
+      },
+      filter: {
+        text: loadElement<HTMLInputElement>('txtLogFilter'),
+        minimumLevel: loadElement<HTMLSelectElement>('selLogFilterLevel')
       },
       lines: loadElement<HTMLButtonElement>('logLines'),
       lineTemplate: {
         element: loadElement<HTMLDivElement>('logLineTemplate'),
-        timestamp: loadElement('logLineTimestamp'),
-        message: loadElement('logLineMessage')
+        timestamp: loadElement('logLineTimestamp')
       }
     },
 
@@ -110,16 +208,71 @@ function loadHtmlElements(): HtmlElements {
         save: loadElement<HTMLButtonElement>('btnSettingsSave'),
         cancel: loadElement<HTMLButtonElement>('btnSettingsCancel')
       },
+      shareableLink: {
+        copy: loadElement<HTMLButtonElement>('btnCopyShareableLink'),
+        includeSecrets: loadElement<HTMLInputElement>(
+          'chkShareableLinkSecrets'
+        ),
+        autorun: loadElement<HTMLInputElement>('chkShareableLinkAutorun')
+      },
+      profiles: {
+        select: loadElement<HTMLSelectElement>('selProfile'),
+        buttons: {
+          activate: loadElement<HTMLButtonElement>('btnProfileActivate'),
+          create: loadElement<HTMLButtonElement>('btnProfileCreate'),
+          rename: loadElement<HTMLButtonElement>('btnProfileRename'),
+          duplicate: loadElement<HTMLButtonElement>('btnProfileDuplicate'),
+          delete: loadElement<HTMLButtonElement>('btnProfileDelete')
+        }
+      },
+      logLevelOptions: {
+        debug: loadElement<HTMLInputElement>('radLogLevelDebug'),
+        info: loadElement<HTMLInputElement>('radLogLevelInfo'),
+        warn: loadElement<HTMLInputElement>('radLogLevelWarn'),
+        error: loadElement<HTMLInputElement>('radLogLevelError')
+      },
       checkboxes: {
-        debugLogging: loadElement<HTMLInputElement>('chkDebugLogging')
+        debugLogging: loadElement<HTMLInputElement>('chkDebugLogging'),
+        cleanupEnabled: loadElement<HTMLInputElement>('chkCleanupEnabled'),
+        forceLongPolling: loadElement<HTMLInputElement>('chkForceLongPolling'),
+        autoDetectLongPolling: loadElement<HTMLInputElement>(
+          'chkAutoDetectLongPolling'
+        ),
+        useFetchStreams: loadElement<HTMLInputElement>('chkUseFetchStreams')
       },
       firestoreHostOptions: {
         prod: loadElement<HTMLInputElement>('radFirestoreHostProd'),
         emulator: loadElement<HTMLInputElement>('radFirestoreHostEmulator'),
         nightly: loadElement<HTMLInputElement>('radFirestoreHostNightly'),
-        qa: loadElement<HTMLInputElement>('radFirestoreHostQA')
+        qa: loadElement<HTMLInputElement>('radFirestoreHostQA'),
+        custom: loadElement<HTMLInputElement>('radFirestoreHostCustom')
+      },
+      customHost: {
+        hostName: loadElement<HTMLInputElement>('txtCustomHost'),
+        ssl: loadElement<HTMLInputElement>('chkCustomHostSsl')
+      },
+      persistenceOptions: {
+        memory: loadElement<HTMLInputElement>('radPersistenceMemory'),
+        indexeddb: loadElement<HTMLInputElement>('radPersistenceIndexedDb'),
+        multiTab: loadElement<HTMLInputElement>('radPersistenceMultiTab')
+      },
+      authModeOptions: {
+        none: loadElement<HTMLInputElement>('radAuthModeNone'),
+        anonymous: loadElement<HTMLInputElement>('radAuthModeAnonymous'),
+        customClaims: loadElement<HTMLInputElement>('radAuthModeCustomClaims'),
+        emailPassword: loadElement<HTMLInputElement>('radAuthModeEmailPassword')
+      },
+      authTextBoxes: {
+        uid: loadElement<HTMLInputElement>('txtAuthUid'),
+        customClaims: loadElement<HTMLInputElement>('txtAuthCustomClaims'),
+        email: loadElement<HTMLInputElement>('txtAuthEmail'),
+        password: loadElement<HTMLInputElement>('txtAuthPassword'),
+        emulatorHost: loadElement<HTMLInputElement>('txtAuthEmulatorHost')
       },
       textBoxes: {
+        cacheSizeBytes: loadElement<HTMLInputElement>('txtCacheSizeBytes'),
+        timeoutSeconds: loadElement<HTMLInputElement>('txtTimeoutSeconds'),
+        clientCount: loadElement<HTMLInputElement>('txtClientCount'),
         projectId: loadElement<HTMLInputElement>('txtProjectId'),
         apiKey: loadElement<HTMLInputElement>('txtApiKey')
       }
@@ -184,17 +337,59 @@ export function initializeDynamicReplaceSpanTexts(
 const CREATE = Symbol('create factory function');
 
 export interface SettingsUiCallbacks {
+  onProfileActivate(selectedName: string): void;
+  onProfileCreate(): void;
+  onProfileRename(selectedName: string): void;
+  onProfileDuplicate(selectedName: string): void;
+  onProfileDelete(selectedName: string): void;
+  onLogLevelChange(newValue: LogLevel): void;
   onDebugLoggingChange(newChecked: boolean): void;
+  onCleanupEnabledChange(newChecked: boolean): void;
   onFirestoreHostChange(newValue: FirestoreHost): void;
+  onCustomHostChange(newValue: string): void;
+  onCustomHostSslChange(newChecked: boolean): void;
+  onPersistenceChange(newValue: FirestorePersistence): void;
+  onCacheSizeBytesChange(newValue: string): void;
+  onTimeoutSecondsChange(newValue: string): void;
+  onClientCountChange(newValue: string): void;
+  onForceLongPollingChange(newChecked: boolean): void;
+  onAutoDetectLongPollingChange(newChecked: boolean): void;
+  onUseFetchStreamsChange(newChecked: boolean): void;
+  onAuthModeChange(newValue: AuthMode): void;
+  onAuthUidChange(newValue: string): void;
+  onAuthCustomClaimsChange(newValue: string): void;
+  onAuthEmailChange(newValue: string): void;
+  onAuthPasswordChange(newValue: string): void;
+  onAuthEmulatorHostChange(newValue: string): void;
   onProjectIdChange(newValue: string): void;
   onApiKeyChange(newValue: string): void;
+  onCopyShareableLink(includeSecrets: boolean, autorun: boolean): void;
   save(): void;
   close(): void;
 }
 
 export interface SettingsUiValues {
+  readonly profileNames: Array<string>;
+  readonly activeProfileName: string;
+  readonly logLevel: LogLevel;
   readonly debugLoggingEnabled: boolean;
+  readonly cleanupEnabled: boolean;
   readonly firestoreHost: FirestoreHost | null;
+  readonly customHost: string;
+  readonly customHostSsl: boolean;
+  readonly persistence: FirestorePersistence;
+  readonly cacheSizeBytes: string;
+  readonly timeoutSeconds: string;
+  readonly clientCount: string;
+  readonly forceLongPolling: boolean;
+  readonly autoDetectLongPolling: boolean;
+  readonly useFetchStreams: boolean;
+  readonly authMode: AuthMode;
+  readonly authUid: string;
+  readonly authCustomClaims: string;
+  readonly authEmail: string;
+  readonly authPassword: string;
+  readonly authEmulatorHost: string;
   readonly projectId: string | null;
   readonly apiKey: string | null;
 }
@@ -207,11 +402,44 @@ export class SettingsUi {
   }
 
   registerCallbacks(callbacks: SettingsUiCallbacks) {
+    // Set up the buttons that operate on the profile selected in the dropdown.
+    const profiles = this.ui.profiles;
+    profiles.buttons.activate.onclick = () =>
+      callbacks.onProfileActivate(profiles.select.value);
+    profiles.buttons.create.onclick = () => callbacks.onProfileCreate();
+    profiles.buttons.rename.onclick = () =>
+      callbacks.onProfileRename(profiles.select.value);
+    profiles.buttons.duplicate.onclick = () =>
+      callbacks.onProfileDuplicate(profiles.select.value);
+    profiles.buttons.delete.onclick = () =>
+      callbacks.onProfileDelete(profiles.select.value);
+
+    // Set up the radio options for the "log level" setting.
+    this.ui.logLevelOptions.debug.onclick = () => {
+      callbacks.onLogLevelChange('debug');
+    };
+    this.ui.logLevelOptions.info.onclick = () => {
+      callbacks.onLogLevelChange('info');
+    };
+    this.ui.logLevelOptions.warn.onclick = () => {
+      callbacks.onLogLevelChange('warn');
+    };
+    this.ui.logLevelOptions.error.onclick = () => {
+      callbacks.onLogLevelChange('error');
+    };
+
     // Set up the checkbox for the "debug logging enabled" setting.
     this.ui.checkboxes.debugLogging.onchange = () => {
       callbacks.onDebugLoggingChange(this.ui.checkboxes.debugLogging.checked);
     };
 
+    // Set up the checkbox for the "cleanup enabled" setting.
+    this.ui.checkboxes.cleanupEnabled.onchange = () => {
+      callbacks.onCleanupEnabledChange(
+        this.ui.checkboxes.cleanupEnabled.checked
+      );
+    };
+
     // Set up the radio options for the "Firestore host" setting.
     this.ui.firestoreHostOptions.prod.onclick = () => {
       callbacks.onFirestoreHostChange('prod');
@@ -225,6 +453,75 @@ export class SettingsUi {
     this.ui.firestoreHostOptions.qa.onclick = () => {
       callbacks.onFirestoreHostChange('qa');
     };
+    this.ui.firestoreHostOptions.custom.onclick = () => {
+      callbacks.onFirestoreHostChange('custom');
+    };
+
+    // Set up the host name and SSL inputs for the "custom" Firestore host.
+    this.ui.customHost.hostName.onchange = () =>
+      callbacks.onCustomHostChange(this.ui.customHost.hostName.value ?? '');
+    this.ui.customHost.ssl.onchange = () =>
+      callbacks.onCustomHostSslChange(this.ui.customHost.ssl.checked);
+
+    // Set up the radio options for the "persistence" setting.
+    this.ui.persistenceOptions.memory.onclick = () => {
+      callbacks.onPersistenceChange('memory');
+    };
+    this.ui.persistenceOptions.indexeddb.onclick = () => {
+      callbacks.onPersistenceChange('indexeddb');
+    };
+    this.ui.persistenceOptions.multiTab.onclick = () => {
+      callbacks.onPersistenceChange('multi-tab');
+    };
+    this.ui.textBoxes.cacheSizeBytes.onchange = () =>
+      callbacks.onCacheSizeBytesChange(
+        this.ui.textBoxes.cacheSizeBytes.value ?? ''
+      );
+    this.ui.textBoxes.timeoutSeconds.onchange = () =>
+      callbacks.onTimeoutSecondsChange(
+        this.ui.textBoxes.timeoutSeconds.value ?? ''
+      );
+    this.ui.textBoxes.clientCount.onchange = () =>
+      callbacks.onClientCountChange(this.ui.textBoxes.clientCount.value ?? '');
+
+    // Set up the checkboxes for the transport settings.
+    const { forceLongPolling, autoDetectLongPolling, useFetchStreams } =
+      this.ui.checkboxes;
+    forceLongPolling.onchange = () =>
+      callbacks.onForceLongPollingChange(forceLongPolling.checked);
+    autoDetectLongPolling.onchange = () =>
+      callbacks.onAutoDetectLongPollingChange(autoDetectLongPolling.checked);
+    useFetchStreams.onchange = () =>
+      callbacks.onUseFetchStreamsChange(useFetchStreams.checked);
+
+    // Set up the radio options and text boxes for the "auth" settings.
+    this.ui.authModeOptions.none.onclick = () => {
+      callbacks.onAuthModeChange('none');
+    };
+    this.ui.authModeOptions.anonymous.onclick = () => {
+      callbacks.onAuthModeChange('anonymous');
+    };
+    this.ui.authModeOptions.customClaims.onclick = () => {
+      callbacks.onAuthModeChange('custom-claims');
+    };
+    this.ui.authModeOptions.emailPassword.onclick = () => {
+      callbacks.onAuthModeChange('email-password');
+    };
+    const authTextBoxes = this.ui.authTextBoxes;
+    authTextBoxes.uid.onchange = () =>
+      callbacks.onAuthUidChange(authTextBoxes.uid.value ?? '');
+    authTextBoxes.customClaims.onchange = () =>
+      callbacks.onAuthCustomClaimsChange(
+        authTextBoxes.customClaims.value ?? ''
+      );
+    authTextBoxes.email.onchange = () =>
+      callbacks.onAuthEmailChange(authTextBoxes.email.value ?? '');
+    authTextBoxes.password.onchange = () =>
+      callbacks.onAuthPasswordChange(authTextBoxes.password.value ?? '');
+    authTextBoxes.emulatorHost.onchange = () =>
+      callbacks.onAuthEmulatorHostChange(
+        authTextBoxes.emulatorHost.value ?? ''
+      );
 
     // Set up the Project ID and API Key text boxes.
     this.ui.textBoxes.projectId.onchange = () =>
@@ -239,12 +536,82 @@ export class SettingsUi {
     this.ui.buttons.cancel.onclick = () => {
       callbacks.close();
     };
+
+    const shareableLink = this.ui.shareableLink;
+    shareableLink.copy.onclick = () =>
+      callbacks.onCopyShareableLink(
+        shareableLink.includeSecrets.checked,
+        shareableLink.autorun.checked
+      );
   }
 
   show(initialValues: SettingsUiValues): void {
+    this.setProfiles(
+      initialValues.profileNames,
+      initialValues.activeProfileName
+    );
     this.ui.checkboxes.debugLogging.checked = initialValues.debugLoggingEnabled;
+    this.ui.checkboxes.cleanupEnabled.checked = initialValues.cleanupEnabled;
+    this.ui.checkboxes.forceLongPolling.checked =
+      initialValues.forceLongPolling;
+    this.ui.checkboxes.autoDetectLongPolling.checked =
+      initialValues.autoDetectLongPolling;
+    this.ui.checkboxes.useFetchStreams.checked = initialValues.useFetchStreams;
     this.ui.textBoxes.projectId.value = initialValues.projectId ?? '';
     this.ui.textBoxes.apiKey.value = initialValues.apiKey ?? '';
+    this.ui.customHost.hostName.value = initialValues.customHost;
+    this.ui.customHost.ssl.checked = initialValues.customHostSsl;
+    this.ui.textBoxes.cacheSizeBytes.value = initialValues.cacheSizeBytes;
+    this.ui.textBoxes.timeoutSeconds.value = initialValues.timeoutSeconds;
+    this.ui.textBoxes.clientCount.value = initialValues.clientCount;
+
+    this.ui.authTextBoxes.uid.value = initialValues.authUid;
+    this.ui.authTextBoxes.customClaims.value = initialValues.authCustomClaims;
+    this.ui.authTextBoxes.email.value = initialValues.authEmail;
+    this.ui.authTextBoxes.password.value = initialValues.authPassword;
+    this.ui.authTextBoxes.emulatorHost.value = initialValues.authEmulatorHost;
+
+    switch (initialValues.logLevel) {
+      case 'debug':
+        this.ui.logLevelOptions.debug.checked = true;
+        break;
+      case 'info':
+        this.ui.logLevelOptions.info.checked = true;
+        break;
+      case 'warn':
+        this.ui.logLevelOptions.warn.checked = true;
+        break;
+      case 'error':
+        this.ui.logLevelOptions.error.checked = true;
+        break;
+    }
+
+    switch (initialValues.authMode) {
+      case 'none':
+        this.ui.authModeOptions.none.checked = true;
+        break;
+      case 'anonymous':
+        this.ui.authModeOptions.anonymous.checked = true;
+        break;
+      case 'custom-claims':
+        this.ui.authModeOptions.customClaims.checked = true;
+        break;
+      case 'email-password':
+        this.ui.authModeOptions.emailPassword.checked = true;
+        break;
+    }
+
+    switch (initialValues.persistence) {
+      case 'memory':
+        this.ui.persistenceOptions.memory.checked = true;
+        break;
+      case 'indexeddb':
+        this.ui.persistenceOptions.indexeddb.checked = true;
+        break;
+      case 'multi-tab':
+        this.ui.persistenceOptions.multiTab.checked = true;
+        break;
+    }
 
     switch (initialValues.firestoreHost) {
       case 'prod':
@@ -259,6 +626,9 @@ export class SettingsUi {
       case 'qa':
         this.ui.firestoreHostOptions.qa.checked = true;
         break;
+      case 'custom':
+        this.ui.firestoreHostOptions.custom.checked = true;
+        break;
     }
 
     this.ui.div.hidden = false;
@@ -267,19 +637,65 @@ export class SettingsUi {
   hide(): void {
     this.ui.div.hidden = true;
   }
+
+  private setProfiles(names: Array<string>, activeName: string): void {
+    this.ui.profiles.select.innerHTML = '';
+    for (const name of names) {
+      const option = document.createElement('option');
+      option.value = name;
+      option.text = name === activeName ? `${name} (active)` : name;
+      option.selected = name === activeName;
+      this.ui.profiles.select.appendChild(option);
+    }
+  }
 }
 
 export interface MainUiCallbacks {
   runTest(): void;
   cancelTest(): void;
   showSettings(): void;
+  onTestScenarioChange(newValue: string): void;
 }
 
 export interface LoggingUiCallbacks {
   clearLogs(): void;
+  downloadLogs(format: LogExportFormat): void;
+  onShowTaggedLinesChange(newChecked: boolean): void;
+  onLogFilterChange(newFilter: LogFilter): void;
+  onFollowTailChange(newChecked: boolean): void;
+}
+
+/** The criteria by which to filter the log lines displayed in the UI. */
+export interface LogFilter {
+  /**
+   * The text that a log line must contain to be displayed; the empty string
+   * matches all lines. Matching is case-insensitive.
+   */
+  readonly text: string;
+
+  /** Whether `text` is a regular expression, rather than a substring. */
+  readonly isRegex: boolean;
+
+  /** The least severe level of the log lines to display. */
+  readonly minimumLevel: LogLevel;
+}
+
+/** A log line that has been appended to the UI. */
+interface LogLine {
+  /** The element of the log line's table row. */
+  readonly element: HTMLElement;
+  /** The element that contains the log line's text. */
+  readonly messageElement: HTMLElement;
+  /** The log line's text, as displayed. */
+  readonly text: string;
+  readonly level: LogLevel;
+  /** Whether the log line is tagged (e.g. "[firestore]"). */
+  readonly tagged: boolean;
 }
 
 export class MainUi {
+  private readonly descriptionByTestName = new Map<string, string>();
+
   private constructor(private readonly ui: MainHtmlElements) {}
 
   static [CREATE](ui: MainHtmlElements): MainUi {
@@ -290,6 +706,52 @@ export class MainUi {
     this.ui.buttons.runTest.onclick = () => callbacks.runTest();
     this.ui.buttons.cancelTest.onclick = () => callbacks.cancelTest();
     this.ui.buttons.settings.onclick = () => callbacks.showSettings();
+    this.ui.selects.test.onchange = () => {
+      this.updateTestDescription();
+      callbacks.onTestScenarioChange(this.ui.selects.test.value);
+    };
+  }
+
+  /**
+   * Populates the test picker with the given tests.
+   *
+   * @param scenarios the tests from which the user can choose.
+   * @param selectedName the name of the test to select initially; if it does
+   * not match the name of any of the given tests then the first test is
+   * selected.
+   */
+  setTestScenarios(scenarios: Array<TestScenario>, selectedName: string): void {
+    this.descriptionByTestName.clear();
+    this.ui.selects.test.innerHTML = '';
+    for (const scenario of scenarios) {
+      const option = document.createElement('option');
+      option.value = scenario.name;
+      option.text = scenario.name;
+      option.title = scenario.description;
+      option.selected = scenario.name === selectedName;
+      this.ui.selects.test.appendChild(option);
+      this.descriptionByTestName.set(scenario.name, scenario.description);
+    }
+    this.updateTestDescription();
+  }
+
+  private updateTestDescription(): void {
+    this.ui.testDescription.innerText =
+      this.descriptionByTestName.get(this.ui.selects.test.value) ?? '';
+  }
+
+  /**
+   * The number of times that the user requested to run the test, or 1 if the
+   * text box does not contain a positive integer.
+   */
+  get runCount(): number {
+    const runCount = this.ui.runCount.valueAsNumber;
+    return Number.isInteger(runCount) && runCount > 0 ? runCount : 1;
+  }
+
+  /** Whether the user requested to stop running the test when it fails. */
+  get runUntilFailure(): boolean {
+    return this.ui.checkboxes.runUntilFailure.checked;
   }
 
   setRunTestButtonEnabled(enabled: boolean): void {
@@ -300,6 +762,27 @@ export class MainUi {
     this.ui.buttons.cancelTest.disabled = !enabled;
   }
 
+  /**
+   * Shows the outcome of the most-recently run test, or hides it if `null`.
+   *
+   * @param outcome the outcome of the test, which determines the color.
+   * @param label the text to show (e.g. "CANCELLED").
+   * @param details additional information to show when hovering over the
+   * label, such as the reason why the test was cancelled.
+   */
+  setTestOutcome(outcome: TestOutcome | null, label = '', details = ''): void {
+    const element = this.ui.testOutcome;
+    element.classList.remove(...Object.values(TEST_OUTCOME_CSS_CLASSES).flat());
+    if (outcome === null) {
+      element.hidden = true;
+      return;
+    }
+    element.classList.add(...TEST_OUTCOME_CSS_CLASSES[outcome]);
+    element.innerText = label;
+    element.title = details;
+    element.hidden = false;
+  }
+
   show(): void {
     this.ui.div.hidden = false;
   }
@@ -310,6 +793,12 @@ export class MainUi {
 }
 
 export class LoggingUi {
+  private readonly _lines: Array<LogLine> = [];
+  private _taggedLinesVisible = true;
+  private _filterRegExp: RegExp | null = null;
+  private _filterMinimumLevel: LogLevel = 'debug';
+  private _followTail = false;
+
   private constructor(private readonly ui: LoggingHtmlElements) {}
 
   static [CREATE](ui: LoggingHtmlElements): LoggingUi {
@@ -318,25 +807,230 @@ export class LoggingUi {
 
   registerCallbacks(callbacks: LoggingUiCallbacks): void {
     this.ui.buttons.clearLogs.onclick = () => callbacks.clearLogs();
+    this.ui.buttons.downloadLogsText.onclick = () =>
+      callbacks.downloadLogs('text');
+    this.ui.buttons.downloadLogsJson.onclick = () =>
+      callbacks.downloadLogs('json');
+    this.ui.checkboxes.showTaggedLines.onchange = () =>
+      callbacks.onShowTaggedLinesChange(
+        this.ui.checkboxes.showTaggedLines.checked
+      );
+    this.ui.checkboxes.followTail.onchange = () =>
+      callbacks.onFollowTailChange(this.ui.checkboxes.followTail.checked);
+
+    const onLogFilterChange = () =>
+      callbacks.onLogFilterChange({
+        text: this.ui.filter.text.value,
+        isRegex: this.ui.checkboxes.filterIsRegex.checked,
+        minimumLevel: this.ui.filter.minimumLevel.value as LogLevel
+      });
+    this.ui.filter.text.oninput = onLogFilterChange;
+    this.ui.filter.minimumLevel.onchange = onLogFilterChange;
+    this.ui.checkboxes.filterIsRegex.onchange = onLogFilterChange;
   }
 
   setClearLogsButtonVisible(visible: boolean): void {
     this.ui.buttons.clearLogs.hidden = !visible;
+    this.ui.buttons.downloadLogsText.hidden = !visible;
+    this.ui.buttons.downloadLogsJson.hidden = !visible;
+  }
+
+  /**
+   * Shows or hides the log lines that are tagged (e.g. "[firestore]"), such as
+   * those logged by the Firestore SDK, including those appended later.
+   */
+  setTaggedLinesVisible(visible: boolean): void {
+    this._taggedLinesVisible = visible;
+    this.ui.checkboxes.showTaggedLines.checked = visible;
+    this._lines.forEach(line => this.updateLineVisibility(line));
+  }
+
+  /**
+   * Shows only the log lines, including those appended later, that match the
+   * given filter, and highlights the text in them that matches.
+   *
+   * If the filter's text is an invalid regular expression then the text box is
+   * marked as invalid and the text is ignored.
+   */
+  setLogFilter(filter: LogFilter): void {
+    this._filterMinimumLevel = filter.minimumLevel;
+    this._filterRegExp = null;
+    let isValid = true;
+    if (filter.text.length > 0) {
+      try {
+        this._filterRegExp = new RegExp(
+          filter.isRegex ? filter.text : escapeRegExp(filter.text),
+          'gi'
+        );
+      } catch (e) {
+        isValid = false;
+      }
+    }
+    this.ui.filter.text.classList.toggle('is-invalid', !isValid);
+
+    this._lines.forEach(line => {
+      this.updateLineVisibility(line);
+      setHighlightedText(line.messageElement, line.text, this._filterRegExp);
+    });
+    this.scrollToTailIfFollowing();
+  }
+
+  /**
+   * Sets whether to scroll to the last visible log line whenever a log line is
+   * appended.
+   */
+  setFollowTail(followTail: boolean): void {
+    this._followTail = followTail;
+    this.ui.checkboxes.followTail.checked = followTail;
+    this.scrollToTailIfFollowing();
   }
 
   clearLogOutput(): void {
     this.ui.lines.innerHTML = '';
+    this._lines.length = 0;
   }
 
-  appendToLogOutput(message: string, timestamp: string): void {
+  appendToLogOutput(
+    message: string,
+    timestamp: string,
+    level: LogLevel,
+    tag?: string
+  ): void {
     this.ui.lineTemplate.timestamp.innerText = timestamp;
-    this.ui.lineTemplate.message.innerText =
-      htmlTextPreservingLeadingSpaces(message);
     const logLineElement = this.ui.lineTemplate.element.cloneNode(
       /*deep=*/ true
     ) as HTMLElement;
-    logLineElement.hidden = false;
+    logLineElement.classList.add(...cssClassesFromLogLevel(level));
+
+    const line: LogLine = {
+      element: logLineElement,
+      messageElement: logLineElement.querySelector<HTMLElement>(
+        `.${LOG_LINE_MESSAGE_CSS_CLASS}`
+      )!,
+      text: htmlTextPreservingLeadingSpaces(
+        tag === undefined ? message : `[${tag}] ${message}`
+      ),
+      level,
+      tagged: tag !== undefined
+    };
+    setHighlightedText(line.messageElement, line.text, this._filterRegExp);
+    this.updateLineVisibility(line);
+
+    this._lines.push(line);
     this.ui.lines.appendChild(logLineElement);
+    // If the new line is hidden then the last visible line has not changed, so
+    // there is no need to scroll.
+    if (this._followTail && !logLineElement.hidden) {
+      logLineElement.scrollIntoView({ block: 'end' });
+    }
+  }
+
+  private updateLineVisibility(line: LogLine): void {
+    const filterRegExp = this._filterRegExp;
+    if (filterRegExp !== null) {
+      filterRegExp.lastIndex = 0;
+    }
+    line.element.hidden =
+      (line.tagged && !this._taggedLinesVisible) ||
+      LOG_LEVELS.indexOf(line.level) <
+        LOG_LEVELS.indexOf(this._filterMinimumLevel) ||
+      (filterRegExp !== null && !filterRegExp.test(line.text));
+  }
+
+  private scrollToTailIfFollowing(): void {
+    if (!this._followTail) {
+      return;
+    }
+    for (let i = this._lines.length - 1; i >= 0; i--) {
+      const element = this._lines[i].element;
+      if (!element.hidden) {
+        element.scrollIntoView({ block: 'end' });
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * The CSS class of the element in the log line template that contains the log
+ * line's text.
+ */
+const LOG_LINE_MESSAGE_CSS_CLASS = 'log-line-message';
+
+/**
+ * The CSS classes of the test outcome badge for each outcome; cancellation is
+ * shown in a different color than failure because it is not a test failure.
+ */
+const TEST_OUTCOME_CSS_CLASSES: Readonly<Record<TestOutcome, Array<string>>> = {
+  passed: ['bg-success'],
+  failed: ['bg-danger'],
+  cancelled: ['bg-warning', 'text-dark'],
+  'timed-out': ['bg-warning', 'text-dark'],
+  'configuration-error': ['bg-danger']
+};
+
+/**
+ * Sets the text of an element, wrapping the parts of it that match the given
+ * regular expression, if any, in `<mark>` elements to highlight them.
+ *
+ * @param element the element whose text to set.
+ * @param text the text to set.
+ * @param regExp the regular expression whose matches to highlight; must have
+ * the "g" flag.
+ */
+function setHighlightedText(
+  element: HTMLElement,
+  text: string,
+  regExp: RegExp | null
+): void {
+  if (regExp === null) {
+    element.innerText = text;
+    return;
+  }
+
+  element.innerHTML = '';
+  text.split('\n').forEach((lineText, lineIndex) => {
+    if (lineIndex > 0) {
+      element.appendChild(document.createElement('br'));
+    }
+    let endOfLastMatch = 0;
+    for (const match of lineText.matchAll(regExp)) {
+      if (match[0].length === 0) {
+        continue;
+      }
+      const startOfMatch = match.index!;
+      element.appendChild(
+        document.createTextNode(
+          lineText.substring(endOfLastMatch, startOfMatch)
+        )
+      );
+      const markElement = document.createElement('mark');
+      markElement.innerText = match[0];
+      element.appendChild(markElement);
+      endOfLastMatch = startOfMatch + match[0].length;
+    }
+    element.appendChild(
+      document.createTextNode(lineText.substring(endOfLastMatch))
+    );
+  });
+}
+
+/** Escapes the characters in a string that are special in a `RegExp`. */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Returns the CSS classes with which to style a log line of a given level. */
+function cssClassesFromLogLevel(level: LogLevel): Array<string> {
+  switch (level) {
+    case 'debug':
+      return ['text-muted'];
+    case 'info':
+      return [];
+    case 'warn':
+      return ['bg-warning', 'bg-opacity-25'];
+    case 'error':
+      return ['text-danger', 'fw-bold'];
   }
 }
 
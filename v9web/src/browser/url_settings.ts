@@ -0,0 +1,144 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Settings, SettingsStorage } from '../common/settings';
+import { isPlaceholderValue } from '../common/util.js';
+
+/**
+ * The query parameter that, if set to "1" or "true", causes the test to be run
+ * as soon as the page has loaded.
+ */
+export const AUTORUN_QUERY_PARAM = 'autorun';
+
+/**
+ * Settings values specified in the query parameters of the page's URL, such as
+ * `?host=emulator&test=get_set_get`, keyed by the keys of the settings.
+ *
+ * These values override the stored settings for the lifetime of the page,
+ * without being saved, except that a value is discarded once the user saves a
+ * new value for the same setting.
+ */
+export class UrlSettingsOverrides {
+  private constructor(
+    private readonly valueByKey: Map<string, string>,
+    readonly unknownKeys: Array<string>,
+    readonly autorun: boolean
+  ) {}
+
+  /**
+   * Parses the query parameters of the given URL.
+   *
+   * @param url the URL of the page.
+   * @param knownKeys the keys of the settings; query parameters with other
+   * names, other than `AUTORUN_QUERY_PARAM`, are reported in `unknownKeys`.
+   */
+  static fromUrl(url: URL, knownKeys: Array<string>): UrlSettingsOverrides {
+    const valueByKey = new Map<string, string>();
+    const unknownKeys: Array<string> = [];
+    for (const [key, value] of url.searchParams) {
+      if (key === AUTORUN_QUERY_PARAM) {
+        continue;
+      } else if (knownKeys.includes(key)) {
+        valueByKey.set(key, value);
+      } else {
+        unknownKeys.push(key);
+      }
+    }
+    const autorun = url.searchParams.get(AUTORUN_QUERY_PARAM);
+    return new UrlSettingsOverrides(
+      valueByKey,
+      unknownKeys,
+      autorun === '1' || autorun === 'true'
+    );
+  }
+
+  /** The keys of the settings whose values are overridden. */
+  get keys(): Array<string> {
+    return Array.from(this.valueByKey.keys());
+  }
+
+  /**
+   * Returns a `SettingsStorage` that loads the overridden values in preference
+   * to those in the given storage.
+   */
+  wrap(storage: SettingsStorage): SettingsStorage {
+    return new OverriddenSettingsStorage(this.valueByKey, storage);
+  }
+}
+
+class OverriddenSettingsStorage implements SettingsStorage {
+  constructor(
+    private readonly valueByKey: Map<string, string>,
+    private readonly storage: SettingsStorage
+  ) {}
+
+  clear(key: string): void {
+    this.valueByKey.delete(key);
+    this.storage.clear(key);
+  }
+
+  load(key: string): string | null {
+    return this.valueByKey.get(key) ?? this.storage.load(key);
+  }
+
+  save(key: string, value: string): void {
+    this.valueByKey.delete(key);
+    this.storage.save(key, value);
+  }
+}
+
+/** Options for `createShareableLink()`. */
+export interface ShareableLinkOptions {
+  /** Whether to include the values of secret settings, such as passwords. */
+  readonly includeSecrets: boolean;
+
+  /** Whether the test is run as soon as the link is opened. */
+  readonly autorun: boolean;
+}
+
+/**
+ * Creates a link to the page whose query parameters specify the value of every
+ * setting, so that whoever opens it runs the test with the same settings.
+ *
+ * Placeholder values, such as that of an unset project ID, are omitted so that
+ * they do not override the real values saved by whoever opens the link.
+ *
+ * @param pageUrl the URL of the page.
+ * @param settings the settings to specify in the link.
+ * @param options options for the link.
+ */
+export function createShareableLink(
+  pageUrl: URL,
+  settings: Settings,
+  options: ShareableLinkOptions
+): string {
+  const link = new URL(pageUrl.href);
+  link.hash = '';
+  link.search = '';
+  for (const setting of settings.all) {
+    const value = `${setting.value}`;
+    if (isPlaceholderValue(value)) {
+      continue;
+    }
+    if (options.includeSecrets || !setting.isSecret) {
+      link.searchParams.set(setting.key, value);
+    }
+  }
+  if (options.autorun) {
+    link.searchParams.set(AUTORUN_QUERY_PARAM, '1');
+  }
+  return link.href;
+}
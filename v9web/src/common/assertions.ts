@@ -0,0 +1,349 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  DocumentData,
+  DocumentReference,
+  SnapshotMetadata
+} from '@firebase/firestore';
+
+import { CancellationToken } from './cancellation_token.js';
+import { log, logError } from './logging.js';
+import { formatElapsedTime, sleep } from './util.js';
+
+/**
+ * The exception thrown when an assertion made via `Assertions` fails.
+ *
+ * By the time this exception is thrown the details of the failure, such as the
+ * expected and actual values, have already been logged.
+ */
+export class AssertionFailedError extends Error {
+  name = 'AssertionFailedError';
+}
+
+/**
+ * The expected values of the properties of a snapshot's `SnapshotMetadata`.
+ *
+ * Properties that are omitted or `undefined` are not checked.
+ */
+export interface SnapshotMetadataExpectation {
+  fromCache?: boolean;
+  hasPendingWrites?: boolean;
+}
+
+/** Options for `Assertions.eventually()`. */
+export interface EventuallyOptions {
+  /**
+   * The maximum number of milliseconds to wait for the condition to become
+   * true (default: 10 seconds).
+   */
+  timeoutMillis?: number;
+
+  /**
+   * The number of milliseconds to wait between evaluations of the condition
+   * (default: 100 milliseconds).
+   */
+  pollIntervalMillis?: number;
+}
+
+/**
+ * Assertions that a test can make about the results of the operations that it
+ * performs.
+ *
+ * Each method logs its outcome. If the assertion fails then the method logs the
+ * expected and actual values and throws `AssertionFailedError`, which causes
+ * the test to fail.
+ */
+export class Assertions {
+  private _checkedCount = 0;
+  private _failedCount = 0;
+
+  constructor(private readonly cancellationToken?: CancellationToken) {}
+
+  /** The number of assertions that have been checked, including failures. */
+  get checkedCount(): number {
+    return this._checkedCount;
+  }
+
+  /** The number of assertions that have failed. */
+  get failedCount(): number {
+    return this._failedCount;
+  }
+
+  /**
+   * Asserts that the given document data is deeply equal to the expected data.
+   *
+   * Firestore types that define `isEqual()`, such as `Timestamp` and
+   * `DocumentReference`, are compared using that method.
+   *
+   * @param actual the actual document data, such as `snapshot.data()`.
+   * @param expected the expected document data.
+   * @param description a description of what is being checked, to be logged.
+   */
+  deepEqual(
+    actual: DocumentData | undefined,
+    expected: DocumentData | undefined,
+    description: string
+  ): void {
+    const differences: Array<string> = [];
+    collectDifferences(actual, expected, '', differences);
+    if (differences.length === 0) {
+      this.pass(description);
+      return;
+    }
+
+    this.fail(description, [
+      `expected: ${formatValue(expected)}`,
+      `actual:   ${formatValue(actual)}`,
+      'differences:',
+      ...differences.map(difference => `  ${difference}`)
+    ]);
+  }
+
+  /**
+   * Asserts that the metadata of the given snapshot has the expected values.
+   *
+   * @param snapshot the snapshot whose metadata to check, such as a
+   * `DocumentSnapshot` or `QuerySnapshot`.
+   * @param expected the expected metadata values.
+   * @param description a description of what is being checked, to be logged.
+   */
+  snapshotMetadata(
+    snapshot: { readonly metadata: SnapshotMetadata },
+    expected: SnapshotMetadataExpectation,
+    description: string
+  ): void {
+    const { metadata } = snapshot;
+    const differences: Array<string> = [];
+    if (
+      expected.fromCache !== undefined &&
+      metadata.fromCache !== expected.fromCache
+    ) {
+      differences.push(
+        `fromCache: expected ${expected.fromCache}, ` +
+          `but got ${metadata.fromCache}`
+      );
+    }
+    if (
+      expected.hasPendingWrites !== undefined &&
+      metadata.hasPendingWrites !== expected.hasPendingWrites
+    ) {
+      differences.push(
+        `hasPendingWrites: expected ${expected.hasPendingWrites}, ` +
+          `but got ${metadata.hasPendingWrites}`
+      );
+    }
+
+    if (differences.length === 0) {
+      this.pass(description);
+      return;
+    }
+
+    this.fail(description, [
+      `actual: fromCache=${metadata.fromCache}, ` +
+        `hasPendingWrites=${metadata.hasPendingWrites}`,
+      'differences:',
+      ...differences.map(difference => `  ${difference}`)
+    ]);
+  }
+
+  /**
+   * Asserts that the given condition becomes true within a timeout.
+   *
+   * The condition is evaluated repeatedly until it returns `true`, the timeout
+   * elapses, or the test is cancelled. This is useful for waiting for state,
+   * such as the contents of a local cache, that changes asynchronously.
+   *
+   * @param condition the condition to evaluate.
+   * @param description a description of what is being checked, to be logged.
+   * @param options options to customize the polling behavior.
+   */
+  async eventually(
+    condition: () => boolean | Promise<boolean>,
+    description: string,
+    options?: EventuallyOptions
+  ): Promise<void> {
+    const timeoutMillis = options?.timeoutMillis ?? 10000;
+    const pollIntervalMillis = options?.pollIntervalMillis ?? 100;
+    const startTime: DOMHighResTimeStamp = performance.now();
+
+    let evaluationCount = 0;
+    while (true) {
+      this.cancellationToken?.throwIfCancelled();
+
+      evaluationCount++;
+      if (await condition()) {
+        this.pass(description);
+        return;
+      }
+
+      if (performance.now() - startTime >= timeoutMillis) {
+        break;
+      }
+      await sleep(pollIntervalMillis);
+    }
+
+    const elapsedTimeStr = formatElapsedTime(startTime, performance.now());
+    this.fail(description, [
+      `condition was still false after ${elapsedTimeStr} ` +
+        `(evaluated ${evaluationCount} times)`
+    ]);
+  }
+
+  private pass(description: string): void {
+    this._checkedCount++;
+    log(`Assertion passed: ${description}`);
+  }
+
+  private fail(description: string, details: Array<string>): never {
+    this._checkedCount++;
+    this._failedCount++;
+    logError(
+      [`ASSERTION FAILED: ${description}`, ...details]
+        .map((line, index) => (index === 0 ? line : `  ${line}`))
+        .join('\n')
+    );
+    throw new AssertionFailedError(description);
+  }
+}
+
+/**
+ * Compares the given values, recursively, and adds a description of each
+ * difference to the given array.
+ *
+ * @param actual the actual value.
+ * @param expected the expected value.
+ * @param path the path of the values being compared (e.g. "a.b[2]"), or the
+ * empty string if they are the top-level values.
+ * @param differences the array to which to add descriptions of differences.
+ */
+function collectDifferences(
+  actual: unknown,
+  expected: unknown,
+  path: string,
+  differences: Array<string>
+): void {
+  const pathPrefix = path.length === 0 ? '' : `${path}: `;
+
+  if (Array.isArray(actual) && Array.isArray(expected)) {
+    if (actual.length !== expected.length) {
+      differences.push(
+        `${pathPrefix}expected an array of length ${expected.length}, ` +
+          `but got length ${actual.length}`
+      );
+    }
+    const commonLength = Math.min(actual.length, expected.length);
+    for (let i = 0; i < commonLength; i++) {
+      collectDifferences(actual[i], expected[i], `${path}[${i}]`, differences);
+    }
+    return;
+  }
+
+  if (isPlainObject(actual) && isPlainObject(expected)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of Array.from(keys).sort()) {
+      const keyPath = path.length === 0 ? key : `${path}.${key}`;
+      if (!(key in actual)) {
+        differences.push(
+          `${keyPath}: missing (expected ${formatValue(expected[key])})`
+        );
+      } else if (!(key in expected)) {
+        differences.push(
+          `${keyPath}: unexpected (got ${formatValue(actual[key])})`
+        );
+      } else {
+        collectDifferences(actual[key], expected[key], keyPath, differences);
+      }
+    }
+    return;
+  }
+
+  if (!isLeafValueEqual(actual, expected)) {
+    differences.push(
+      `${pathPrefix}expected ${formatValue(expected)}, ` +
+        `but got ${formatValue(actual)}`
+    );
+  }
+}
+
+/**
+ * Returns whether the given values, which are not both arrays and not both
+ * plain objects, are equal.
+ */
+function isLeafValueEqual(value1: unknown, value2: unknown): boolean {
+  if (Number.isNaN(value1) && Number.isNaN(value2)) {
+    return true;
+  }
+  if (hasIsEqual(value1) && hasIsEqual(value2)) {
+    return (
+      Object.getPrototypeOf(value1) === Object.getPrototypeOf(value2) &&
+      value1.isEqual(value2)
+    );
+  }
+  return value1 === value2;
+}
+
+function hasIsEqual(
+  value: unknown
+): value is { isEqual(other: unknown): boolean } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { isEqual?: unknown }).isEqual === 'function'
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Formats the given value into a human-friendly string.
+ *
+ * This is similar to `JSON.stringify()` except that it does not choke on
+ * circular objects, like `DocumentReference`, and uses the more informative
+ * `toString()` of Firestore types, like `Timestamp`.
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return 'undefined';
+  }
+  if (value instanceof DocumentReference) {
+    return `DocumentReference(${value.path})`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(', ')}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).map(
+      ([key, entryValue]) =>
+        `${JSON.stringify(key)}: ${formatValue(entryValue)}`
+    );
+    return `{${entries.join(', ')}}`;
+  }
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    value.toString !== Object.prototype.toString
+  ) {
+    return value.toString();
+  }
+  return JSON.stringify(value) ?? String(value);
+}
@@ -0,0 +1,308 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { FirebaseApp } from '@firebase/app';
+import {
+  connectAuthEmulator,
+  createUserWithEmailAndPassword,
+  getAuth,
+  signInAnonymously,
+  signInWithCustomToken,
+  signInWithEmailAndPassword,
+  signOut,
+  Auth,
+  AuthErrorCodes,
+  User
+} from '@firebase/auth';
+
+import { ConfigurationError } from './errors.js';
+import {
+  authEmulatorHostFromSettings,
+  getBase64Encode
+} from './firestore_helper.js';
+import { log } from './logging.js';
+import { Settings } from './settings.js';
+import {
+  displayLabelFromAuthMode,
+  AuthMode,
+  UnknownAuthModeError
+} from './util.js';
+
+/**
+ * The `Auth` objects created by `TestAuth`, keyed by their app.
+ *
+ * `connectAuthEmulator()` may only be called once per `Auth` object, before it
+ * is used, so `Auth` objects are created at most once per app and reused by
+ * subsequent test runs. This is safe because the Auth emulator host is part of
+ * the key of the apps cached by `getFirestore()`, so changing it (or the
+ * Firestore host) results in a new app, and therefore a new `Auth` object.
+ */
+const authByApp = new WeakMap<FirebaseApp, Auth>();
+
+/**
+ * The Firebase Auth state of a test, which the test can use to inspect and
+ * switch the signed-in user.
+ *
+ * The `Auth` object is only created when first needed, so that tests that do
+ * not sign in do not use Firebase Auth at all.
+ *
+ * Firebase Auth is used only by the main Firestore instance; the supplementary
+ * instances returned from `TestEnvironment.getFirestore()` use separate
+ * `FirebaseApp` objects and are not signed in.
+ */
+export class TestAuth {
+  private constructor(
+    private readonly app: FirebaseApp,
+    private readonly emulatorHost: string | null
+  ) {}
+
+  /**
+   * Creates a `TestAuth` for the given app and signs in as specified by the
+   * given settings.
+   *
+   * If the Firestore emulator is being used, then the Auth emulator is used
+   * too.
+   *
+   * @param app the app whose Auth state to manage.
+   * @param settings the settings that specify how to sign in.
+   * @return the newly-created object, which is signed in as requested.
+   */
+  static async initialize(
+    app: FirebaseApp,
+    settings: Settings
+  ): Promise<TestAuth> {
+    const testAuth = new TestAuth(app, authEmulatorHostFromSettings(settings));
+    await testAuth.signInFromSettings(settings);
+    return testAuth;
+  }
+
+  private get usingEmulator(): boolean {
+    return this.emulatorHost !== null;
+  }
+
+  /** Gets the `Auth` object for the app, creating it if necessary. */
+  private get auth(): Auth {
+    const cachedAuth = authByApp.get(this.app);
+    if (cachedAuth) {
+      return cachedAuth;
+    }
+
+    log(`getAuth() for app ${this.app.name}`);
+    const auth = getAuth(this.app);
+    if (this.emulatorHost !== null) {
+      const url = `http://${this.emulatorHost}`;
+      log(`connectAuthEmulator(auth, ${url})`);
+      connectAuthEmulator(auth, url, { disableWarnings: true });
+    }
+    authByApp.set(this.app, auth);
+    return auth;
+  }
+
+  /** The currently signed-in user, or `null` if not signed in. */
+  get currentUser(): User | null {
+    return authByApp.get(this.app)?.currentUser ?? null;
+  }
+
+  /**
+   * Signs in as a new anonymous user.
+   *
+   * @return the signed-in user.
+   */
+  async signInAnonymously(): Promise<User> {
+    log('signInAnonymously()');
+    const { user } = await signInAnonymously(this.auth);
+    log(`Signed in as anonymous user ${user.uid}`);
+    return user;
+  }
+
+  /**
+   * Signs in as the user with the given ID, whose ID token will contain the
+   * given custom claims (e.g. for use in security rules via `request.auth`).
+   *
+   * This is only supported when using the Auth emulator, because it signs in
+   * with an unsigned custom token, which only the emulator accepts.
+   *
+   * @param uid the ID of the user as whom to sign in.
+   * @param claims the custom claims to include in the user's ID token.
+   * @return the signed-in user.
+   */
+  async signInWithCustomClaims(
+    uid: string,
+    claims: Record<string, unknown> = {}
+  ): Promise<User> {
+    if (!this.usingEmulator) {
+      throw new AuthModeNotSupportedError(
+        'Signing in with custom claims is only supported when using the ' +
+          'Firestore emulator, and therefore the Auth emulator.'
+      );
+    }
+    log(`signInWithCustomToken() uid=${uid} claims=${JSON.stringify(claims)}`);
+    const token = createUnsignedCustomToken(this.auth.app.options, uid, claims);
+    const { user } = await signInWithCustomToken(this.auth, token);
+    log(`Signed in as user ${user.uid} with custom claims`);
+    return user;
+  }
+
+  /**
+   * Signs in with the given email address and password.
+   *
+   * When using the Auth emulator, the user is created if it does not exist.
+   *
+   * @param email the email address of the user as whom to sign in.
+   * @param password the user's password.
+   * @return the signed-in user.
+   */
+  async signInWithEmailAndPassword(
+    email: string,
+    password: string
+  ): Promise<User> {
+    log(`signInWithEmailAndPassword() email=${email}`);
+    let user: User;
+    try {
+      user = (await signInWithEmailAndPassword(this.auth, email, password))
+        .user;
+    } catch (e) {
+      const code = (e as { code?: unknown } | null)?.code;
+      if (!this.usingEmulator || code !== AuthErrorCodes.USER_DELETED) {
+        throw e;
+      }
+      log(`createUserWithEmailAndPassword() email=${email}`);
+      user = (await createUserWithEmailAndPassword(this.auth, email, password))
+        .user;
+    }
+    log(`Signed in as user ${user.uid} (${email})`);
+    return user;
+  }
+
+  /** Signs out the current user, if any. */
+  async signOut(): Promise<void> {
+    const currentUser = this.currentUser;
+    if (currentUser === null) {
+      return;
+    }
+    log(`signOut() uid=${currentUser.uid}`);
+    await signOut(this.auth);
+  }
+
+  private async signInFromSettings(settings: Settings): Promise<void> {
+    const authMode: AuthMode = settings.authMode.value;
+    if (authMode !== 'none') {
+      log(`Signing in to Firebase Auth: ${displayLabelFromAuthMode(authMode)}`);
+    }
+
+    // Sign out first so that each test starts from a known state, even if a
+    // previous test switched users.
+    await this.signOut();
+
+    switch (authMode) {
+      case 'none':
+        return;
+      case 'anonymous':
+        await this.signInAnonymously();
+        return;
+      case 'custom-claims':
+        await this.signInWithCustomClaims(
+          settings.authUid.value,
+          parseCustomClaims(settings.authCustomClaims.value)
+        );
+        return;
+      case 'email-password':
+        await this.signInWithEmailAndPassword(
+          settings.authEmail.value,
+          settings.authPassword.value
+        );
+        return;
+    }
+    throw new UnknownAuthModeError(authMode);
+  }
+}
+
+/**
+ * Parses the given JSON string into an object of custom claims.
+ *
+ * @throws InvalidCustomClaimsError if the string is not a JSON object.
+ */
+function parseCustomClaims(value: string): Record<string, unknown> {
+  let claims: unknown;
+  try {
+    claims = JSON.parse(value);
+  } catch (e) {
+    throw new InvalidCustomClaimsError(value);
+  }
+  if (typeof claims !== 'object' || claims === null || Array.isArray(claims)) {
+    throw new InvalidCustomClaimsError(value);
+  }
+  return claims as Record<string, unknown>;
+}
+
+/**
+ * Creates an unsigned custom token, as accepted by the Auth emulator.
+ *
+ * See https://firebase.google.com/docs/emulator-suite/connect_auth for
+ * details on custom tokens and the emulator.
+ */
+function createUnsignedCustomToken(
+  options: { projectId?: string },
+  uid: string,
+  claims: Record<string, unknown>
+): string {
+  const issuedAtSeconds = Math.floor(Date.now() / 1000);
+  const header = { alg: 'none', typ: 'JWT' };
+  const payload = {
+    iss: `firebase-auth-emulator@${options.projectId}.iam.gserviceaccount.com`,
+    sub: `firebase-auth-emulator@${options.projectId}.iam.gserviceaccount.com`,
+    aud:
+      'https://identitytoolkit.googleapis.com/' +
+      'google.identity.identitytoolkit.v1.IdentityToolkit',
+    iat: issuedAtSeconds,
+    exp: issuedAtSeconds + 60 * 60,
+    uid,
+    claims
+  };
+  return `${base64UrlEncodeJson(header)}.${base64UrlEncodeJson(payload)}.`;
+}
+
+/** Encodes the given object as JSON, then as "base64url" (RFC 4648). */
+function base64UrlEncodeJson(value: object): string {
+  const utf8Bytes = new TextEncoder().encode(JSON.stringify(value));
+  const byteString = Array.from(utf8Bytes)
+    .map(byte => String.fromCharCode(byte))
+    .join('');
+  return getBase64Encode()(byteString)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Exception thrown if the custom claims specified in the settings are not a
+ * valid JSON object.
+ */
+export class InvalidCustomClaimsError extends ConfigurationError {
+  name = 'InvalidCustomClaimsError';
+
+  constructor(value: string) {
+    super(`invalid custom claims: ${value} (expected a JSON object)`);
+  }
+}
+
+/**
+ * Exception thrown if signing in with the requested auth mode is not supported
+ * by the Firestore host being used.
+ */
+export class AuthModeNotSupportedError extends ConfigurationError {
+  name = 'AuthModeNotSupportedError';
+}
@@ -29,26 +29,71 @@ const CANCELLATION_TOKEN_CANCEL = Symbol('CancellationToken.cancel()');
  */
 const CANCELLATION_TOKEN_CREATE = Symbol('CancellationToken.create()');
 
+/** The reason given for cancellation if none is specified to `cancel()`. */
+const DEFAULT_CANCELLATION_REASON = 'operation cancelled';
+
+/**
+ * Exception thrown when an operation is abandoned because it was cancelled,
+ * such as by `CancellationToken.throwIfCancelled()`.
+ */
+export class CancelledError extends Error {
+  name = 'CancelledError';
+
+  /**
+   * @param reason why the operation was cancelled (e.g. "timed out after 30
+   * seconds").
+   * @param timedOut whether the operation was cancelled because its timeout
+   * elapsed.
+   */
+  constructor(readonly reason: string, readonly timedOut: boolean = false) {
+    super(reason);
+  }
+}
+
 /**
  * A token that is notified when an operation is requested to be cancelled.
  *
- * Instances should not be created directly; rather,
+ * Instances should not be created directly; rather, create a
+ * `CancellationTokenSource` and use its `cancellationToken` property.
  */
 export class CancellationToken {
-  private _cancelled = false;
+  private _error: CancelledError | null = null;
+  private _abortController: AbortController | null = null;
+  private _whenCancelled: Promise<CancelledError> | null = null;
   private readonly _onCancelledCallbacks = new Map<Symbol, () => void>();
 
   private constructor() {}
 
   /** Whether this operation has been cancelled. */
   get cancelled(): boolean {
-    return this._cancelled;
+    return this._error !== null;
+  }
+
+  /**
+   * Whether this operation was cancelled because its timeout, as specified to
+   * `CancellationTokenSource.cancelAfter()`, elapsed.
+   */
+  get timedOut(): boolean {
+    return this._error?.timedOut ?? false;
+  }
+
+  /** Why this operation was cancelled, or `null` if it was not cancelled. */
+  get reason(): string | null {
+    return this._error?.reason ?? null;
+  }
+
+  /**
+   * The exception that describes this operation's cancellation, or `null` if
+   * it was not cancelled.
+   */
+  get error(): CancelledError | null {
+    return this._error;
   }
 
-  /** Throws an exception if `this.cancelled`. */
+  /** Throws `CancelledError` if `this.cancelled`. */
   throwIfCancelled(): void {
-    if (this._cancelled) {
-      throw new Error('operation cancelled');
+    if (this._error !== null) {
+      throw this._error;
     }
   }
 
@@ -63,7 +108,7 @@ export class CancellationToken {
    * @return A function that can be called to unregister the callback.
    */
   onCancelled(callback: () => void): () => void {
-    if (this._cancelled) {
+    if (this._error !== null) {
       callback();
       return () => {};
     }
@@ -76,12 +121,66 @@ export class CancellationToken {
     };
   }
 
+  /**
+   * Returns a promise that is fulfilled, with the exception that describes
+   * the cancellation, when this operation is cancelled.
+   *
+   * The returned promise is never fulfilled if this operation is never
+   * cancelled.
+   */
+  whenCancelled(): Promise<CancelledError> {
+    if (this._whenCancelled === null) {
+      this._whenCancelled = new Promise(resolve => {
+        this.onCancelled(() => resolve(this._error!));
+      });
+    }
+    return this._whenCancelled;
+  }
+
+  /**
+   * Returns an `AbortSignal` that is aborted when this operation is cancelled,
+   * for use with APIs such as `fetch()`.
+   *
+   * The signal's `reason` is the `CancelledError` that describes the
+   * cancellation.
+   */
+  toAbortSignal(): AbortSignal {
+    if (this._abortController === null) {
+      const abortController = new AbortController();
+      this._abortController = abortController;
+      this.onCancelled(() => abortController.abort(this._error));
+    }
+    return this._abortController.signal;
+  }
+
+  /**
+   * Creates and returns a token that is cancelled when the given signal is
+   * aborted.
+   *
+   * @param signal the signal whose abortion is to cancel the returned token.
+   * @return the newly-created token.
+   */
+  static fromAbortSignal(signal: AbortSignal): CancellationToken {
+    const source = new CancellationTokenSource();
+    const cancel = () => source.cancel(reasonFromAbortSignal(signal));
+    if (signal.aborted) {
+      cancel();
+    } else {
+      signal.addEventListener('abort', cancel, { once: true });
+    }
+    return source.cancellationToken;
+  }
+
   // private, only to be used by CancellationTokenSource.
-  [CANCELLATION_TOKEN_CANCEL]() {
-    this._cancelled = true;
+  [CANCELLATION_TOKEN_CANCEL](error: CancelledError) {
+    if (this._error !== null) {
+      return;
+    }
+    this._error = error;
     this._onCancelledCallbacks.forEach(callback => {
       callback();
     });
+    this._onCancelledCallbacks.clear();
   }
 
   // private, only to be used by CancellationTokenSource.
@@ -95,12 +194,99 @@ export class CancellationToken {
  */
 export class CancellationTokenSource {
   readonly cancellationToken: CancellationToken;
+  private _timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private readonly _unlinkCallbacks: Array<() => void> = [];
 
-  constructor() {
+  /**
+   * @param parents tokens whose cancellation is to also cancel this object's
+   * token, with the same reason; `undefined` elements are ignored. Call
+   * `dispose()` when this object is no longer needed to stop listening for
+   * their cancellation.
+   */
+  constructor(...parents: Array<CancellationToken | undefined>) {
     this.cancellationToken = CancellationToken[CANCELLATION_TOKEN_CREATE]();
+    for (const parent of parents) {
+      if (parent === undefined) {
+        continue;
+      }
+      this._unlinkCallbacks.push(
+        parent.onCancelled(() => {
+          this.clearTimeout();
+          this.cancellationToken[CANCELLATION_TOKEN_CANCEL](parent.error!);
+        })
+      );
+    }
+  }
+
+  /**
+   * Cancels this object's token, if it is not already cancelled.
+   *
+   * @param reason why the operation is being cancelled.
+   */
+  cancel(reason: string = DEFAULT_CANCELLATION_REASON): void {
+    this.clearTimeout();
+    this.cancellationToken[CANCELLATION_TOKEN_CANCEL](
+      new CancelledError(reason)
+    );
   }
 
-  cancel(): void {
-    this.cancellationToken[CANCELLATION_TOKEN_CANCEL]();
+  /**
+   * Schedules the token to be cancelled after the given number of
+   * milliseconds, replacing any previously-scheduled cancellation.
+   *
+   * If the token is cancelled due to this timeout then its `timedOut` property
+   * will be `true`.
+   */
+  cancelAfter(milliseconds: number): void {
+    this.clearTimeout();
+    if (this.cancellationToken.cancelled) {
+      return;
+    }
+    this._timeoutId = setTimeout(() => {
+      this._timeoutId = null;
+      this.cancellationToken[CANCELLATION_TOKEN_CANCEL](
+        new CancelledError(
+          `timed out after ${milliseconds / 1000} seconds`,
+          /*timedOut=*/ true
+        )
+      );
+    }, milliseconds);
+  }
+
+  /**
+   * Unschedules the cancellation scheduled by `cancelAfter()`, if any.
+   *
+   * This should be called once the operation completes so that the pending
+   * timer does not, for example, keep the node process alive.
+   */
+  clearTimeout(): void {
+    if (this._timeoutId !== null) {
+      clearTimeout(this._timeoutId);
+      this._timeoutId = null;
+    }
+  }
+
+  /**
+   * Releases the resources held by this object, without cancelling its token:
+   * unschedules any cancellation scheduled by `cancelAfter()` and stops
+   * listening for the cancellation of the parent tokens.
+   */
+  dispose(): void {
+    this.clearTimeout();
+    this._unlinkCallbacks.forEach(unlink => unlink());
+    this._unlinkCallbacks.length = 0;
+  }
+}
+
+/** Returns the reason for cancellation to use for an aborted signal. */
+function reasonFromAbortSignal(signal: AbortSignal): string {
+  const reason: unknown = signal.reason;
+  if (reason instanceof CancelledError) {
+    return reason.reason;
+  } else if (reason instanceof Error) {
+    return reason.message;
+  } else if (reason === undefined) {
+    return DEFAULT_CANCELLATION_REASON;
   }
+  return `${reason}`;
 }
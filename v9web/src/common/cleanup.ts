@@ -0,0 +1,189 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  getDocs,
+  writeBatch,
+  CollectionReference,
+  DocumentReference,
+  Firestore
+} from '@firebase/firestore';
+
+import { log, logDebug } from './logging.js';
+
+/**
+ * The maximum number of writes that Firestore allows in a single `WriteBatch`.
+ */
+const MAX_WRITES_PER_BATCH = 500;
+
+/**
+ * Keeps track of the collections and documents created by a test so that they
+ * can be deleted after the test completes.
+ */
+export class CreatedResourceTracker {
+  private readonly collectionsByPath = new Map<string, CollectionReference>();
+  private readonly documentsByPath = new Map<string, DocumentReference>();
+
+  /** Whether no collections or documents have been tracked. */
+  get isEmpty(): boolean {
+    return this.collectionsByPath.size === 0 && this.documentsByPath.size === 0;
+  }
+
+  /** Records that the given collection was created by the test. */
+  trackCollection(collectionRef: CollectionReference): void {
+    this.collectionsByPath.set(collectionRef.path, collectionRef);
+  }
+
+  /** Records that the given document was created by the test. */
+  trackDocument(documentRef: DocumentReference): void {
+    this.documentsByPath.set(documentRef.path, documentRef);
+  }
+
+  /**
+   * Deletes the tracked documents and all documents in the tracked
+   * collections, logging what was deleted.
+   *
+   * Subcollections are deleted before their parent documents. Note that the
+   * client SDK is unable to list subcollections, so only subcollections that
+   * were themselves tracked (e.g. created by `createEmptyCollection()`) are
+   * deleted.
+   *
+   * The documents are deleted using the `Firestore` instance with which they
+   * were tracked, since a `WriteBatch` cannot contain documents of different
+   * instances (e.g. those of `TestEnvironment.getFirestore()`).
+   */
+  async deleteAll(): Promise<void> {
+    const documentsByPath = new Map(this.documentsByPath);
+    for (const collectionRef of this.collectionsByPath.values()) {
+      log(`Cleanup: listing documents in collection ${collectionRef.path}`);
+      const snapshot = await getDocs(collectionRef);
+      snapshot.docs.forEach(documentSnapshot =>
+        documentsByPath.set(documentSnapshot.ref.path, documentSnapshot.ref)
+      );
+    }
+
+    // Sort the documents so that the most deeply-nested are deleted first.
+    const documentRefs = Array.from(documentsByPath.values()).sort(
+      (documentRef1, documentRef2) =>
+        pathDepth(documentRef2.path) - pathDepth(documentRef1.path) ||
+        documentRef1.path.localeCompare(documentRef2.path)
+    );
+
+    for (const [db, dbDocumentRefs] of groupByFirestore(documentRefs)) {
+      for (let i = 0; i < dbDocumentRefs.length; i += MAX_WRITES_PER_BATCH) {
+        const batchDocumentRefs = dbDocumentRefs.slice(
+          i,
+          i + MAX_WRITES_PER_BATCH
+        );
+        const batch = writeBatch(db);
+        batchDocumentRefs.forEach(documentRef => batch.delete(documentRef));
+        await batch.commit();
+        for (const documentRef of batchDocumentRefs) {
+          logDebug(`Cleanup: deleted document ${documentRef.path}`);
+        }
+      }
+    }
+
+    log(
+      `Cleanup: deleted ${documentRefs.length} documents from ` +
+        `${this.collectionsByPath.size} collections`
+    );
+  }
+
+  /**
+   * Logs the paths of the tracked collections and documents that were not
+   * deleted, such as because cleanup was disabled.
+   *
+   * @param reason why they were not deleted (e.g. "disabled").
+   */
+  logRetained(reason: string = 'disabled'): void {
+    const paths = [
+      ...this.collectionsByPath.keys(),
+      ...Array.from(this.documentsByPath.values())
+        .filter(
+          documentRef => !this.collectionsByPath.has(documentRef.parent.path)
+        )
+        .map(documentRef => documentRef.path)
+    ];
+    log(`Cleanup ${reason}; keeping: ${paths.join(', ')}`);
+  }
+}
+
+function pathDepth(path: string): number {
+  return path.split('/').length;
+}
+
+/**
+ * Groups the given documents by their `Firestore` instance, preserving their
+ * relative order within each group.
+ */
+function groupByFirestore(
+  documentRefs: Array<DocumentReference>
+): Map<Firestore, Array<DocumentReference>> {
+  const documentRefsByFirestore = new Map<
+    Firestore,
+    Array<DocumentReference>
+  >();
+  for (const documentRef of documentRefs) {
+    const group = documentRefsByFirestore.get(documentRef.firestore);
+    if (group === undefined) {
+      documentRefsByFirestore.set(documentRef.firestore, [documentRef]);
+    } else {
+      group.push(documentRef);
+    }
+  }
+  return documentRefsByFirestore;
+}
+
+/**
+ * The tracker to be notified of created collections and documents, and set by
+ * `setCreatedResourceTracker()`.
+ */
+let gCreatedResourceTracker: CreatedResourceTracker | null = null;
+
+/**
+ * Sets the tracker to notify when `trackCreatedCollection()` or
+ * `trackCreatedDocument()` are invoked.
+ *
+ * @param tracker the tracker to notify, or `null` to stop tracking.
+ */
+export function setCreatedResourceTracker(
+  tracker: CreatedResourceTracker | null
+): void {
+  gCreatedResourceTracker = tracker;
+}
+
+/**
+ * Records that the given collection was created, so that it is deleted after
+ * the test completes.
+ *
+ * Does nothing if no test is running.
+ */
+export function trackCreatedCollection(
+  collectionRef: CollectionReference
+): void {
+  gCreatedResourceTracker?.trackCollection(collectionRef);
+}
+
+/**
+ * Records that the given document was created, so that it is deleted after
+ * the test completes.
+ *
+ * Does nothing if no test is running.
+ */
+export function trackCreatedDocument(documentRef: DocumentReference): void {
+  gCreatedResourceTracker?.trackDocument(documentRef);
+}
@@ -0,0 +1,120 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CancellationToken } from './cancellation_token.js';
+
+/** The state of one named rendezvous point. */
+interface RendezvousPoint {
+  readonly values: Array<unknown>;
+  readonly arrivedClientIds: Set<number>;
+  readonly promise: Promise<Array<unknown>>;
+  resolve(values: Array<unknown>): void;
+}
+
+/**
+ * Synchronizes the clients that run a test concurrently, such that each client
+ * waits at a named rendezvous point until every client has arrived at it.
+ *
+ * For example, to make every client write to a document only once every client
+ * has started listening to it, each client would call
+ * `arrive('listening', clientId, null)` after calling `onSnapshot()`.
+ */
+export class ClientRendezvous {
+  private readonly _points = new Map<string, RendezvousPoint>();
+
+  /**
+   * @param clientCount the number of clients, which must each arrive at a
+   * rendezvous point before any of them may proceed past it.
+   */
+  constructor(readonly clientCount: number) {}
+
+  /**
+   * Waits for every client to arrive at the rendezvous point with the given
+   * name.
+   *
+   * Each rendezvous point may be used only once; to synchronize clients
+   * repeatedly (e.g. in a loop), use a distinct name each time.
+   *
+   * @param name the name of the rendezvous point.
+   * @param clientId the ID of the arriving client, from 0 to
+   * `clientCount - 1`.
+   * @param value a value to share with the other clients.
+   * @param cancellationToken a token whose cancellation abandons the wait.
+   * @return the values specified by each client, indexed by client ID.
+   * @throws DuplicateRendezvousArrivalError if the client has already arrived
+   * at the rendezvous point.
+   * @throws CancelledError if the given token is cancelled before every client
+   * arrives.
+   */
+  async arrive<T>(
+    name: string,
+    clientId: number,
+    value: T,
+    cancellationToken?: CancellationToken
+  ): Promise<Array<T>> {
+    const point = this.getOrCreatePoint(name);
+    if (point.arrivedClientIds.has(clientId)) {
+      throw new DuplicateRendezvousArrivalError(name, clientId);
+    }
+    point.arrivedClientIds.add(clientId);
+    point.values[clientId] = value;
+    if (point.arrivedClientIds.size === this.clientCount) {
+      point.resolve(point.values);
+    }
+
+    const promise = point.promise as Promise<Array<T>>;
+    if (cancellationToken === undefined) {
+      return promise;
+    }
+    const cancelled = cancellationToken.whenCancelled().then(error => {
+      throw error;
+    });
+    return await Promise.race([promise, cancelled]);
+  }
+
+  private getOrCreatePoint(name: string): RendezvousPoint {
+    const existingPoint = this._points.get(name);
+    if (existingPoint !== undefined) {
+      return existingPoint;
+    }
+
+    let resolve: (values: Array<unknown>) => void = () => {};
+    const promise = new Promise<Array<unknown>>(r => (resolve = r));
+    const point: RendezvousPoint = {
+      values: new Array(this.clientCount),
+      arrivedClientIds: new Set(),
+      promise,
+      resolve
+    };
+    this._points.set(name, point);
+    return point;
+  }
+}
+
+/**
+ * Exception thrown by `ClientRendezvous.arrive()` if the client has already
+ * arrived at the rendezvous point.
+ */
+export class DuplicateRendezvousArrivalError extends Error {
+  name = 'DuplicateRendezvousArrivalError';
+
+  constructor(name: string, clientId: number) {
+    super(
+      `client ${clientId} has already arrived at rendezvous point "${name}"; ` +
+        `use a distinct name for each rendezvous`
+    );
+  }
+}
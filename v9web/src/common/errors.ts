@@ -0,0 +1,28 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * The base class of exceptions thrown because of an invalid or unsupported
+ * configuration, such as an invalid setting or an unknown test name, rather
+ * than because of a problem detected by the test itself.
+ *
+ * The test runner reports these exceptions differently from test failures so
+ * that, for example, a script can tell a failed test from a typo in its
+ * command-line arguments.
+ */
+export class ConfigurationError extends Error {
+  name = 'ConfigurationError';
+}
@@ -17,20 +17,28 @@
 import { initializeApp, FirebaseApp } from '@firebase/app';
 import {
   connectFirestoreEmulator,
+  enableIndexedDbPersistence,
+  enableMultiTabIndexedDbPersistence,
   Firestore,
-  getFirestore,
-  initializeFirestore
+  FirestoreSettings,
+  initializeFirestore,
+  terminate
 } from '@firebase/firestore';
 
 import {
-  displayValueFromHost,
+  ConflictingLongPollingSettingsError,
+  DEFAULT_EMULATOR_PORT,
+  formatHostAndPort,
   FirestoreHost,
-  hostNameFromHost,
+  FirestorePersistence,
   isPlaceholderValue,
-  PlaceholderProjectIdNotAllowedError
+  parseHostAndPort,
+  PlaceholderProjectIdNotAllowedError,
+  UnknownFirestorePersistenceError
 } from './util.js';
-import { log } from './logging.js';
-import { Settings } from './settings.js';
+import { log, logWarn } from './logging.js';
+import { captureSdkLogs } from './sdk_logging.js';
+import { Settings, SettingValue } from './settings.js';
 
 /** A hasher, such as Md5 from the Google Closure Library. */
 export interface Hasher {
@@ -62,21 +70,105 @@ export function setBase64Encode(base64EncodeToSet: Base64Encode): void {
   base64Encode = base64EncodeToSet;
 }
 
+/** Returns the function specified to `setBase64Encode()`. */
+export function getBase64Encode(): Base64Encode {
+  if (!base64Encode) {
+    throw new Error('base64 encode function has not yet been set');
+  }
+  return base64Encode;
+}
+
+/**
+ * The properties that determine the configuration of a Firestore instance.
+ *
+ * Firestore instances whose properties differ in any way must be distinct, and
+ * therefore need distinct `FirebaseApp` objects too.
+ */
+interface FirestoreConfig {
+  readonly host: FirestoreHost;
+  readonly hostName: string;
+  readonly ssl: boolean;
+  readonly persistence: FirestorePersistence;
+  readonly cacheSizeBytes: number | null;
+  readonly forceLongPolling: boolean | null;
+  readonly autoDetectLongPolling: boolean | null;
+  readonly useFetchStreams: boolean | null;
+  readonly projectId: string;
+  readonly apiKey: string;
+  /**
+   * The Auth emulator to which the app's `Auth` object connects, or `null` if
+   * the emulator is not used; an `Auth` object can only be connected once.
+   */
+  readonly authEmulatorHost: string | null;
+}
+
+/**
+ * The public `FirestoreSettings` plus the internal settings that this
+ * application supports.
+ */
+interface PrivateFirestoreSettings extends FirestoreSettings {
+  /** Whether to use the Fetch API instead of XMLHTTPRequest for streams. */
+  useFetchStreams?: boolean;
+}
+
 class FirebaseObjectCacheKey {
   constructor(
-    readonly host: FirestoreHost,
-    readonly projectId: string,
-    readonly apiKey: string,
+    readonly config: FirestoreConfig,
     readonly instanceId: number | null
   ) {}
 
+  get host(): FirestoreHost {
+    return this.config.host;
+  }
+
   get hostName(): string {
-    return hostNameFromHost(this.host);
+    return this.config.hostName;
+  }
+
+  get ssl(): boolean {
+    return this.config.ssl;
+  }
+
+  get persistence(): FirestorePersistence {
+    return this.config.persistence;
+  }
+
+  get cacheSizeBytes(): number | null {
+    return this.config.cacheSizeBytes;
+  }
+
+  get forceLongPolling(): boolean | null {
+    return this.config.forceLongPolling;
+  }
+
+  get autoDetectLongPolling(): boolean | null {
+    return this.config.autoDetectLongPolling;
+  }
+
+  get useFetchStreams(): boolean | null {
+    return this.config.useFetchStreams;
+  }
+
+  get projectId(): string {
+    return this.config.projectId;
+  }
+
+  get apiKey(): string {
+    return this.config.apiKey;
+  }
+
+  get authEmulatorHost(): string | null {
+    return this.config.authEmulatorHost;
   }
 
   get displayString(): string {
     return (
-      `host=${this.hostName} (${this.host}), ` +
+      `host=${this.hostName} (${this.host}), ssl=${this.ssl}, ` +
+      `persistence=${this.persistence}, ` +
+      `cacheSizeBytes=${this.cacheSizeBytes ?? 'default'}, ` +
+      `forceLongPolling=${this.forceLongPolling ?? 'default'}, ` +
+      `autoDetectLongPolling=${this.autoDetectLongPolling ?? 'default'}, ` +
+      `useFetchStreams=${this.useFetchStreams ?? 'default'}, ` +
       `projectId=${this.projectId}, apiKey=${this.apiKey}, ` +
       `appName=${this.appName}`
     );
@@ -119,23 +211,31 @@ class FirebaseObjectCacheKey {
   }
 
   get canonicalStringWithoutInstanceId(): string {
-    return `${this.host}%${this.projectId}%${this.apiKey}`;
+    return [
+      this.host,
+      this.hostName,
+      this.ssl,
+      this.persistence,
+      this.cacheSizeBytes ?? '',
+      this.forceLongPolling ?? '',
+      this.autoDetectLongPolling ?? '',
+      this.useFetchStreams ?? '',
+      this.projectId,
+      this.apiKey,
+      this.authEmulatorHost ?? ''
+    ].join('%');
   }
 }
 
 class FirebaseAppCacheEntry extends FirebaseObjectCacheKey {
   constructor(readonly app: FirebaseApp, key: FirebaseObjectCacheKey) {
-    super(key.host, key.projectId, key.apiKey, key.instanceId);
+    super(key.config, key.instanceId);
   }
 }
 
 class FirestoreCacheEntry extends FirebaseObjectCacheKey {
-  constructor(
-    readonly db: Firestore,
-    key: FirebaseObjectCacheKey,
-    readonly ssl: boolean
-  ) {
-    super(key.host, key.projectId, key.apiKey, key.instanceId);
+  constructor(readonly db: Firestore, key: FirebaseObjectCacheKey) {
+    super(key.config, key.instanceId);
   }
 
   toFirestoreInfo(): FirestoreInfo {
@@ -165,6 +265,14 @@ class FirebaseObjectCache<T> {
     }
     this.cachedObjectsByKey.set(keyString, value);
   }
+
+  values(): Array<T> {
+    return Array.from(this.cachedObjectsByKey.values());
+  }
+
+  clear(): void {
+    this.cachedObjectsByKey.clear();
+  }
 }
 
 const firebaseAppCache = new FirebaseObjectCache<FirebaseAppCacheEntry>();
@@ -188,27 +296,62 @@ function getOrCreateFirestore(
   instanceId?: number
 ): FirestoreInfo {
   const host = settings.host.value;
-  const hostName = settings.host.hostName;
+  const ssl = settings.host.ssl;
   const projectId = settings.projectId.value;
   const apiKey = settings.apiKey.value;
+
+  // Normalize the host name of the emulator or a custom host, which also
+  // validates it.
+  const hostName =
+    host === 'emulator' || host === 'custom'
+      ? formatHostAndPort(parseHostAndPort(settings.host.hostName))
+      : settings.host.hostName;
+
+  const persistence = settings.persistence.value;
+  const cacheSizeBytes = settings.cacheSizeBytes.bytes;
+
+  const forceLongPolling = explicitValueOf(settings.forceLongPolling);
+  const autoDetectLongPolling = explicitValueOf(settings.autoDetectLongPolling);
+  const useFetchStreams = explicitValueOf(settings.useFetchStreams);
+  const authEmulatorHost = authEmulatorHostFromSettings(settings);
+
   const cacheKey = new FirebaseObjectCacheKey(
-    host,
-    projectId,
-    apiKey,
+    {
+      host,
+      hostName,
+      ssl,
+      persistence,
+      cacheSizeBytes,
+      forceLongPolling,
+      autoDetectLongPolling,
+      useFetchStreams,
+      projectId,
+      apiKey,
+      authEmulatorHost
+    },
     instanceId ?? null
   );
 
   // Verify that the Project ID is set to something other than the default if
-  // the Firestore emulator is not being used. The default Project ID works with
-  // the emulator, but will cause strange errors if used against prod.
-  if (host !== 'emulator' && isPlaceholderValue(projectId)) {
+  // SSL is used, which indicates that the Firestore emulator is not being used.
+  // The default Project ID works with the emulator, but will cause strange
+  // errors if used against prod.
+  if (ssl && isPlaceholderValue(projectId)) {
     throw new PlaceholderProjectIdNotAllowedError(
       'The Project ID needs to be set in firebase_config.ts, or in the ' +
         'Settings, unless using the Firestore emulator.'
     );
   }
 
-  // Set the requested debug log level, if it has never been set before.
+  // Firestore throws if both are enabled, which would otherwise be reported as
+  // a test failure rather than as an invalid configuration.
+  if (forceLongPolling && autoDetectLongPolling) {
+    throw new ConflictingLongPollingSettingsError();
+  }
+
+  // Route the SDK's log messages through `log()`, then set the requested debug
+  // log level, if it has never been set before.
+  captureSdkLogs();
   if (!settings.debugLogEnabled.isApplied) {
     settings.debugLogEnabled.apply();
   }
@@ -235,27 +378,132 @@ function getOrCreateFirestore(
     firebaseAppCache.set(cacheKey, new FirebaseAppCacheEntry(app, cacheKey));
   }
 
-  let db: Firestore;
-  if (host === 'prod' || host === 'emulator') {
-    log(`getFirestore() for ${cacheKey.displayString}`);
-    db = getFirestore(app);
-  } else {
-    log(`initializeFirestore() with host=${hostName} (${host})`);
-    db = initializeFirestore(app, { host: hostName });
+  const firestoreSettings: PrivateFirestoreSettings = {};
+  if (host !== 'prod' && host !== 'emulator') {
+    firestoreSettings.host = hostName;
+    firestoreSettings.ssl = ssl;
+  }
+  if (cacheSizeBytes !== null) {
+    firestoreSettings.cacheSizeBytes = cacheSizeBytes;
+  }
+  if (forceLongPolling !== null) {
+    firestoreSettings.experimentalForceLongPolling = forceLongPolling;
+  }
+  if (autoDetectLongPolling !== null) {
+    firestoreSettings.experimentalAutoDetectLongPolling = autoDetectLongPolling;
+  }
+  if (useFetchStreams !== null) {
+    firestoreSettings.useFetchStreams = useFetchStreams;
   }
 
-  let ssl: boolean;
-  if (host !== 'emulator') {
-    ssl = true;
-  } else {
-    ssl = false;
-    log(`connectFirestoreEmulator(db, ${hostName}, 8080)`);
-    connectFirestoreEmulator(db, hostName, 8080);
+  log(
+    `initializeFirestore() for ${cacheKey.displayString} with settings: ` +
+      JSON.stringify(firestoreSettings)
+  );
+  const db = initializeFirestore(app, firestoreSettings);
+
+  if (host === 'emulator') {
+    const emulatorHost = parseHostAndPort(hostName);
+    const emulatorPort = emulatorHost.port ?? DEFAULT_EMULATOR_PORT;
+    log(
+      `connectFirestoreEmulator(db, ${emulatorHost.hostName}, ${emulatorPort})`
+    );
+    connectFirestoreEmulator(db, emulatorHost.hostName, emulatorPort);
   }
 
-  const firestoreCacheEntry = new FirestoreCacheEntry(db, cacheKey, ssl);
+  // Persistence must be enabled before the Firestore instance is used.
+  enablePersistence(db, persistence);
+
+  const firestoreCacheEntry = new FirestoreCacheEntry(db, cacheKey);
   firestoreInstanceCache.set(cacheKey, firestoreCacheEntry);
   return firestoreCacheEntry.toFirestoreInfo();
 }
 
+/**
+ * Returns the normalized host and port of the Auth emulator to use with the
+ * given settings, or `null` if the Firestore emulator, and therefore the Auth
+ * emulator, is not used.
+ */
+export function authEmulatorHostFromSettings(
+  settings: Settings
+): string | null {
+  return settings.host.value === 'emulator'
+    ? formatHostAndPort(parseHostAndPort(settings.authEmulatorHost.value))
+    : null;
+}
+
+/**
+ * Returns the value of the given setting if it has been set explicitly, or
+ * `null` if it has not, in which case the Firestore SDK's default should be
+ * used.
+ */
+function explicitValueOf<T extends string | boolean>(
+  setting: SettingValue<T>
+): T | null {
+  return setting.isDefault ? null : setting.value;
+}
+
+/**
+ * Enables the given persistence in the given Firestore instance.
+ *
+ * This function returns without waiting for persistence to be enabled; the
+ * Firestore instance will wait for it internally before performing any other
+ * operations. If enabling persistence fails (e.g. because IndexedDB is not
+ * available) then Firestore falls back to memory persistence, and the failure
+ * is logged.
+ */
+function enablePersistence(
+  db: Firestore,
+  persistence: FirestorePersistence
+): void {
+  let enablePersistenceFunction: (db: Firestore) => Promise<void>;
+  let functionName: string;
+  switch (persistence) {
+    case 'memory':
+      return;
+    case 'indexeddb':
+      functionName = 'enableIndexedDbPersistence';
+      enablePersistenceFunction = enableIndexedDbPersistence;
+      break;
+    case 'multi-tab':
+      functionName = 'enableMultiTabIndexedDbPersistence';
+      enablePersistenceFunction = enableMultiTabIndexedDbPersistence;
+      break;
+    default:
+      throw new UnknownFirestorePersistenceError(persistence);
+  }
+
+  log(`${functionName}()`);
+  enablePersistenceFunction(db).then(
+    () => log(`${functionName}() completed successfully`),
+    (e: unknown) =>
+      logWarn(
+        `${functionName}() failed, falling back to memory persistence: ` +
+          `${e instanceof Error ? e.message : e}`
+      )
+  );
+}
+
+/**
+ * Terminates every `Firestore` instance created by `getFirestore()` and removes
+ * them from the cache, so that subsequent calls create new instances.
+ *
+ * Failures to terminate an instance are logged but otherwise ignored.
+ */
+export async function terminateAllFirestoreInstances(): Promise<void> {
+  const entries = firestoreInstanceCache.values();
+  firestoreInstanceCache.clear();
+  for (const entry of entries) {
+    log(`Terminating Firestore instance with ${entry.displayString}`);
+    try {
+      await terminate(entry.db);
+    } catch (e) {
+      logWarn(
+        `Terminating Firestore instance with ${entry.displayString} failed: ` +
+          `${e instanceof Error ? e.message : e}`
+      );
+    }
+  }
+}
+
 export { getOrCreateFirestore as getFirestore };
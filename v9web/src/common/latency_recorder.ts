@@ -0,0 +1,162 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { log, logDebug } from './logging.js';
+
+/** The percentiles reported by `LatencyRecorder.statistics()`. */
+const PERCENTILES = [50, 90, 99] as const;
+
+/** Statistics about the latencies recorded for one label. */
+export interface LatencyStatistics {
+  /** The label of the measured operation (e.g. "setDoc"). */
+  readonly label: string;
+
+  /** The number of samples recorded. */
+  readonly count: number;
+
+  /** The smallest latency, in milliseconds. */
+  readonly min: number;
+
+  /** The median latency, in milliseconds. */
+  readonly p50: number;
+
+  /** The 90th percentile latency, in milliseconds. */
+  readonly p90: number;
+
+  /** The 99th percentile latency, in milliseconds. */
+  readonly p99: number;
+
+  /** The largest latency, in milliseconds. */
+  readonly max: number;
+}
+
+/**
+ * Records how long operations take, such as Firestore calls, grouped by a
+ * label that identifies the operation, and summarizes them.
+ */
+export class LatencyRecorder {
+  private readonly _samplesByLabel = new Map<string, Array<number>>();
+
+  /** Whether no samples have been recorded. */
+  get isEmpty(): boolean {
+    return this._samplesByLabel.size === 0;
+  }
+
+  /**
+   * Records one sample.
+   *
+   * @param label the label of the measured operation.
+   * @param millis the number of milliseconds that the operation took.
+   */
+  record(label: string, millis: number): void {
+    let samples = this._samplesByLabel.get(label);
+    if (samples === undefined) {
+      samples = [];
+      this._samplesByLabel.set(label, samples);
+    }
+    samples.push(millis);
+  }
+
+  /**
+   * Runs the given operation and records how long it took.
+   *
+   * Only operations that succeed are recorded, so that failures, such as
+   * timeouts, do not skew the statistics.
+   *
+   * @param label the label of the operation (e.g. "setDoc").
+   * @param operation the operation to run.
+   * @return the value with which the promise returned from the operation is
+   * fulfilled.
+   */
+  async measure<T>(label: string, operation: () => Promise<T>): Promise<T> {
+    const startTime: DOMHighResTimeStamp = performance.now();
+    const result = await operation();
+    const millis = performance.now() - startTime;
+    this.record(label, millis);
+    logDebug(`${label} took ${millis.toFixed(1)} ms`);
+    return result;
+  }
+
+  /** Returns statistics about the recorded samples for each label. */
+  statistics(): Array<LatencyStatistics> {
+    return Array.from(this._samplesByLabel.entries()).map(
+      ([label, samples]) => {
+        const sortedSamples = Array.from(samples).sort((a, b) => a - b);
+        const [p50, p90, p99] = PERCENTILES.map(percentile =>
+          percentileOf(sortedSamples, percentile)
+        );
+        return {
+          label,
+          count: sortedSamples.length,
+          min: sortedSamples[0],
+          p50,
+          p90,
+          p99,
+          max: sortedSamples[sortedSamples.length - 1]
+        };
+      }
+    );
+  }
+
+  /** Logs a table of the statistics, if any samples have been recorded. */
+  logStatistics(): void {
+    if (this.isEmpty) {
+      return;
+    }
+    log('Latencies (milliseconds):');
+    formatLatencyTable(this.statistics()).forEach(line => log(`  ${line}`));
+  }
+}
+
+/**
+ * Returns the given percentile of the given samples, which must be sorted and
+ * non-empty, using the "nearest rank" method.
+ */
+function percentileOf(
+  sortedSamples: Array<number>,
+  percentile: number
+): number {
+  const rank = Math.ceil((percentile / 100) * sortedSamples.length);
+  return sortedSamples[Math.max(rank, 1) - 1];
+}
+
+/**
+ * Formats the given statistics as the lines of a table, with a header line and
+ * one line per label, whose columns are aligned if displayed in a monospace
+ * font.
+ */
+function formatLatencyTable(
+  statistics: Array<LatencyStatistics>
+): Array<string> {
+  const rows = statistics.map(s => [
+    s.label,
+    `${s.count}`,
+    ...[s.min, s.p50, s.p90, s.p99, s.max].map(millis => millis.toFixed(1))
+  ]);
+  const header = ['operation', 'count', 'min', 'p50', 'p90', 'p99', 'max'];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map(row => row[column].length))
+  );
+  return [header, ...rows].map(row =>
+    row
+      .map((value, column) =>
+        column === 0
+          ? value.padEnd(widths[column])
+          : value.padStart(widths[column])
+      )
+      .join('  ')
+  );
+}
@@ -14,9 +14,32 @@
  * limitations under the License.
  */
 
+import { ConfigurationError } from './errors.js';
+
+/**
+ * The severity of a log message, from least to most severe.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** All log levels, from least to most severe. */
+export const LOG_LEVELS: ReadonlyArray<LogLevel> = [
+  'debug',
+  'info',
+  'warn',
+  'error'
+];
+
 export interface LogMessage {
   text: string;
   timestamp: string;
+  level: LogLevel;
+
+  /**
+   * The name of the component that produced the message, if it was not this
+   * application (e.g. "firestore" for messages logged by the Firestore SDK).
+   */
+  tag?: string;
+
   options?: unknown;
 }
 
@@ -27,6 +50,22 @@ export type LogFunction = (message: LogMessage) => void;
  */
 let gLogFunction: LogFunction | null = null;
 
+/**
+ * The least severe level of the messages to log; messages with a lower level
+ * are discarded. Set by `setMinimumLogLevel()`.
+ */
+let gMinimumLogLevel: LogLevel = 'info';
+
+/**
+ * The most-recently logged message that was not tagged (i.e. that was logged
+ * by this application, rather than by an SDK); used to report what a test was
+ * doing when it timed out.
+ */
+let gLastUntaggedMessage: LogMessage | null = null;
+
+/** The functions registered by `addLogListener()`. */
+const gLogListeners = new Set<LogFunction>();
+
 /**
  * Keep track of "time zero" so that all log statements can have an offset from
  * this "time zero". This makes it easy to see how long operations take, rather
@@ -52,16 +91,104 @@ export function setLogFunction(logFunction: LogFunction): void {
   gLogFunction = logFunction;
 }
 
-/** Logs a message to the UI and, optionally, `console.log()`. */
+/**
+ * Sets the least severe level of the messages to log.
+ *
+ * Messages logged with a less severe level are discarded.
+ */
+export function setMinimumLogLevel(level: LogLevel): void {
+  if (!LOG_LEVELS.includes(level)) {
+    throw new UnknownLogLevelError(level);
+  }
+  gMinimumLogLevel = level;
+}
+
+/** Returns whether messages with the given level are logged. */
+export function isLogLevelEnabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(gMinimumLogLevel);
+}
+
+/** Logs an "info" message to the UI and, optionally, `console.log()`. */
 export function log(message: string, options?: unknown): void {
+  logWithLevel('info', message, options);
+}
+
+/** Logs a "debug" message, which is discarded by default. */
+export function logDebug(message: string, options?: unknown): void {
+  logWithLevel('debug', message, options);
+}
+
+/** Logs a "warn" message, for a problem that does not fail the test. */
+export function logWarn(message: string, options?: unknown): void {
+  logWithLevel('warn', message, options);
+}
+
+/** Logs an "error" message, for a problem that fails the test. */
+export function logError(message: string, options?: unknown): void {
+  logWithLevel('error', message, options);
+}
+
+/** Logs a message with the given level, if that level is enabled. */
+export function logWithLevel(
+  level: LogLevel,
+  message: string,
+  options?: unknown
+): void {
+  logMessage({ text: message, level, options });
+}
+
+/**
+ * Logs a message produced by another component, such as the Firestore SDK, if
+ * the given level is enabled.
+ *
+ * @param tag the name of the component that produced the message (e.g.
+ * "firestore").
+ * @param level the level of the message.
+ * @param message the message to log.
+ *
+ * The component is expected to have written the message to the console itself,
+ * so the message is not written there again.
+ */
+export function logTagged(tag: string, level: LogLevel, message: string): void {
+  logMessage({ text: message, level, tag });
+}
+
+function logMessage(message: Omit<LogMessage, 'timestamp'>): void {
   if (gLogFunction === null) {
     throw new Error('setLogFunction() has not yet been invoked');
   }
-  gLogFunction({
-    text: message,
-    timestamp: elapsedTimeStr(),
-    options
-  });
+  if (!isLogLevelEnabled(message.level)) {
+    return;
+  }
+  const messageWithTimestamp = { ...message, timestamp: elapsedTimeStr() };
+  if (message.tag === undefined) {
+    gLastUntaggedMessage = messageWithTimestamp;
+  }
+  gLogFunction(messageWithTimestamp);
+  gLogListeners.forEach(listener => listener(messageWithTimestamp));
+}
+
+/**
+ * Registers a function to be called with every message that is logged, after
+ * the log function set by `setLogFunction()`; for example, to capture the
+ * messages logged by one run of a test.
+ *
+ * @param listener the function to register.
+ * @return a function to call to unregister the given function.
+ */
+export function addLogListener(listener: LogFunction): () => void {
+  gLogListeners.add(listener);
+  return () => {
+    gLogListeners.delete(listener);
+  };
+}
+
+/**
+ * Returns the most-recently logged message that was logged by this application
+ * (i.e. not by an SDK), or `null` if no such message has been logged.
+ */
+export function getLastUntaggedLogMessage(): LogMessage | null {
+  return gLastUntaggedMessage;
 }
 
 /** Resets the start time so that the next call to `log()` will start at t=0. */
@@ -103,3 +230,17 @@ function getElapsedMilliseconds(): number {
   }
   return performance.now() - logStartTime;
 }
+
+/**
+ * Exception thrown if a method is given a string that is not equal to one of
+ * strings in the `LogLevel` union type.
+ */
+export class UnknownLogLevelError extends ConfigurationError {
+  name = 'UnknownLogLevelError';
+
+  constructor(level: string) {
+    super(
+      `unknown log level: ${level} (valid levels are: ${LOG_LEVELS.join(', ')})`
+    );
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { disableNetwork, enableNetwork, Firestore } from '@firebase/firestore';
+
+import { CancellationToken } from './cancellation_token.js';
+import { log, logWarn } from './logging.js';
+
+/** Options for `NetworkController.scheduleFlaps()`. */
+export interface NetworkFlapOptions {
+  /** The number of milliseconds for which to go offline in each flap. */
+  offlineMillis: number;
+
+  /**
+   * The number of milliseconds from the start of one flap to the start of the
+   * next; must be greater than `offlineMillis`.
+   */
+  intervalMillis: number;
+
+  /**
+   * The number of milliseconds to wait before the first flap (default: the
+   * time spent online in each interval, `intervalMillis - offlineMillis`).
+   */
+  initialDelayMillis?: number;
+
+  /** The maximum number of flaps (default: unlimited). */
+  count?: number;
+
+  /** The Firestore instance to take offline (default: the main instance). */
+  db?: Firestore;
+}
+
+/** A schedule created by `NetworkController.scheduleFlaps()`. */
+export interface NetworkFlapSchedule {
+  /**
+   * Stops the schedule, bringing the instance back online if it is offline due
+   * to this schedule.
+   */
+  stop(): Promise<void>;
+}
+
+/**
+ * Takes Firestore instances offline and online, either on demand or according
+ * to a schedule, logging each transition.
+ *
+ * Every instance that is offline when the test finishes is brought back online
+ * so that the collections and documents created by the test can be cleaned up.
+ */
+export class NetworkController {
+  private readonly _offlineInstances = new Set<Firestore>();
+  private readonly _instanceNames = new Map<Firestore, string>();
+  private readonly _schedules = new Set<NetworkFlapSchedule>();
+
+  constructor(
+    private readonly mainDb: Firestore,
+    private readonly cancellationToken?: CancellationToken
+  ) {
+    this._instanceNames.set(mainDb, 'main Firestore instance');
+  }
+
+  /**
+   * Sets the name by which to refer to the given Firestore instance in log
+   * messages (e.g. "Firestore instance 1").
+   */
+  setInstanceName(db: Firestore, name: string): void {
+    this._instanceNames.set(db, name);
+  }
+
+  /** Returns whether the given instance was taken offline by this object. */
+  isOffline(db?: Firestore): boolean {
+    return this._offlineInstances.has(db ?? this.mainDb);
+  }
+
+  /**
+   * Takes a Firestore instance offline by calling `disableNetwork()`.
+   *
+   * @param db the instance to take offline (default: the main instance).
+   */
+  async goOffline(db?: Firestore): Promise<void> {
+    const instance = db ?? this.mainDb;
+    const name = this.nameOf(instance);
+    log(`Network: taking ${name} offline`);
+    this._offlineInstances.add(instance);
+    await disableNetwork(instance);
+    log(`Network: ${name} is offline`);
+  }
+
+  /**
+   * Brings a Firestore instance online by calling `enableNetwork()`.
+   *
+   * @param db the instance to bring online (default: the main instance).
+   */
+  async goOnline(db?: Firestore): Promise<void> {
+    const instance = db ?? this.mainDb;
+    const name = this.nameOf(instance);
+    log(`Network: bringing ${name} online`);
+    this._offlineInstances.delete(instance);
+    await enableNetwork(instance);
+    log(`Network: ${name} is online`);
+  }
+
+  /**
+   * Repeatedly takes a Firestore instance offline for a period of time then
+   * brings it back online, such as "offline for 3 seconds every 10 seconds".
+   *
+   * The schedule runs in the background until it has performed the requested
+   * number of flaps, it is stopped, the test is cancelled, or the test
+   * finishes.
+   *
+   * @param options the timing of the flaps and the instance to flap.
+   * @return an object that can be used to stop the schedule.
+   */
+  scheduleFlaps(options: NetworkFlapOptions): NetworkFlapSchedule {
+    const { offlineMillis, intervalMillis } = options;
+    if (!(offlineMillis > 0 && intervalMillis > offlineMillis)) {
+      throw new InvalidNetworkFlapOptionsError(offlineMillis, intervalMillis);
+    }
+    const instance = options.db ?? this.mainDb;
+    const maxCount = options.count ?? Infinity;
+    const name = this.nameOf(instance);
+
+    log(
+      `Network: scheduling ${name} to go offline for ${offlineMillis}ms ` +
+        `every ${intervalMillis}ms` +
+        (options.count === undefined ? '' : ` (${options.count} times)`)
+    );
+
+    let stopped = false;
+    let flapCount = 0;
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    // The most-recently started transition, so that stop() can wait for it to
+    // complete before (possibly) starting another.
+    let lastTransition: Promise<void> = Promise.resolve();
+
+    const transition = (online: boolean) => {
+      lastTransition = lastTransition
+        .then(() =>
+          online ? this.goOnline(instance) : this.goOffline(instance)
+        )
+        .catch(e => {
+          logWarn(
+            `Network: going ${online ? 'online' : 'offline'} failed: ` +
+              (e instanceof Error ? e.message : e)
+          );
+        });
+    };
+
+    const startFlap = () => {
+      timeoutId = null;
+      if (stopped) {
+        return;
+      }
+      flapCount++;
+      transition(false);
+      timeoutId = setTimeout(() => endFlap(), offlineMillis);
+    };
+
+    const endFlap = () => {
+      timeoutId = null;
+      if (stopped) {
+        return;
+      }
+      transition(true);
+      if (flapCount < maxCount) {
+        timeoutId = setTimeout(
+          () => startFlap(),
+          intervalMillis - offlineMillis
+        );
+      } else {
+        this._schedules.delete(schedule);
+      }
+    };
+
+    let unregisterCancelledCallback: (() => void) | undefined = undefined;
+
+    const schedule: NetworkFlapSchedule = {
+      stop: async () => {
+        if (!stopped) {
+          stopped = true;
+          this._schedules.delete(schedule);
+          unregisterCancelledCallback?.();
+          if (timeoutId !== null) {
+            clearTimeout(timeoutId);
+            timeoutId = null;
+          }
+          log(`Network: stopped flapping ${name} after ${flapCount} flap(s)`);
+        }
+        await lastTransition;
+        if (this.isOffline(instance)) {
+          await this.goOnline(instance);
+        }
+      }
+    };
+    this._schedules.add(schedule);
+
+    timeoutId = setTimeout(
+      () => startFlap(),
+      options.initialDelayMillis ?? intervalMillis - offlineMillis
+    );
+
+    // Register this last since, if the test is already cancelled, the callback
+    // is invoked synchronously, stopping the schedule that was just started.
+    unregisterCancelledCallback = this.cancellationToken?.onCancelled(() => {
+      schedule.stop().catch(e => {
+        logWarn(
+          `Network: stopping the flaps of ${name} failed: ` +
+            (e instanceof Error ? e.message : e)
+        );
+      });
+    });
+
+    return schedule;
+  }
+
+  /**
+   * Stops all flap schedules and brings every instance that was taken offline
+   * back online.
+   *
+   * This method is called by the test runner when the test finishes.
+   */
+  async restore(): Promise<void> {
+    for (const schedule of Array.from(this._schedules)) {
+      await schedule.stop();
+    }
+    for (const instance of Array.from(this._offlineInstances)) {
+      await this.goOnline(instance);
+    }
+  }
+
+  private nameOf(db: Firestore): string {
+    return this._instanceNames.get(db) ?? `Firestore instance ${db.app.name}`;
+  }
+}
+
+/**
+ * Exception thrown by `NetworkController.scheduleFlaps()` if the given timing
+ * is invalid.
+ */
+export class InvalidNetworkFlapOptionsError extends Error {
+  name = 'InvalidNetworkFlapOptionsError';
+
+  constructor(offlineMillis: number, intervalMillis: number) {
+    super(
+      `invalid network flap timing: offlineMillis=${offlineMillis}, ` +
+        `intervalMillis=${intervalMillis} (offlineMillis must be positive ` +
+        `and less than intervalMillis)`
+    );
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { terminateAllFirestoreInstances } from './firestore_helper.js';
+import { LatencyRecorder } from './latency_recorder.js';
+import {
+  addLogListener,
+  log,
+  logTagged,
+  logWithLevel,
+  LogMessage
+} from './logging.js';
+import { Settings } from './settings.js';
+import {
+  displayLabelFromTestOutcome,
+  runTest,
+  TestOutcome,
+  TestRunOptions,
+  TestRunResult
+} from './test_runner.js';
+import { TestScenarioRegistry } from './test_scenario';
+import { formatElapsedTime } from './util.js';
+
+/** Options for `runTestRepeatedly()`. */
+export interface RepeatedTestRunOptions
+  extends Omit<TestRunOptions, 'terminateFirestore' | 'latencyRecorder'> {
+  /**
+   * The maximum number of times to run the test, or `null` for no maximum,
+   * which is only valid if `untilFailure` is `true`.
+   */
+  readonly maxRunCount: number | null;
+
+  /** Whether to stop running the test as soon as one run of it fails. */
+  readonly untilFailure: boolean;
+}
+
+/** The result of running a test via `runTestRepeatedly()`. */
+export interface RepeatedTestRunResult {
+  /**
+   * The overall outcome: the outcome of the first run that did not pass, or
+   * "passed" if every run passed.
+   */
+  readonly outcome: TestOutcome;
+
+  /** The results of the individual runs, in the order in which they ran. */
+  readonly runs: Array<TestRunResult>;
+
+  /** The number of runs that passed. */
+  readonly passedCount: number;
+
+  /** The number of runs that failed or timed out. */
+  readonly failedCount: number;
+
+  /** The latencies measured by every run via `TestEnvironment.measure()`. */
+  readonly latencies: LatencyRecorder;
+}
+
+/**
+ * Runs the test selected in the given settings repeatedly, for hunting down
+ * flaky behavior, then logs statistics about the runs, the latencies measured
+ * by every run, and the logs of the first run that failed.
+ *
+ * Each run uses new `Firestore` instances; the instances used by the previous
+ * run, if any, are terminated first.
+ *
+ * Running stops early if the test is cancelled, if a run reports a
+ * configuration error (since every subsequent run would do the same), or, if
+ * `options.untilFailure` is `true`, if a run fails or times out.
+ *
+ * @param scenarios the tests from which to choose the test to run.
+ * @param settings the settings to use, as for `runTest()`.
+ * @param options options for running the test.
+ * @return the results of running the test.
+ */
+export async function runTestRepeatedly(
+  scenarios: TestScenarioRegistry,
+  settings: Settings,
+  options: RepeatedTestRunOptions
+): Promise<RepeatedTestRunResult> {
+  const { maxRunCount, untilFailure, cancellationToken, profileName } = options;
+  const runs: Array<TestRunResult> = [];
+  const latencies = new LatencyRecorder();
+  let firstFailure: { runNumber: number; logs: Array<LogMessage> } | null =
+    null;
+
+  while (maxRunCount === null || runs.length < maxRunCount) {
+    if (cancellationToken?.cancelled) {
+      break;
+    }
+
+    await terminateAllFirestoreInstances();
+
+    const runNumber = runs.length + 1;
+    log(`Starting run ${runNumber} of ${maxRunCount ?? 'until failure'}`);
+
+    const logs: Array<LogMessage> = [];
+    const removeLogListener = addLogListener(message => logs.push(message));
+    let result: TestRunResult;
+    try {
+      result = await runTest(scenarios, settings, {
+        cancellationToken,
+        profileName,
+        latencyRecorder: latencies,
+        terminateFirestore: false
+      });
+    } finally {
+      removeLogListener();
+    }
+    runs.push(result);
+
+    if (firstFailure === null && isFailure(result.outcome)) {
+      firstFailure = { runNumber, logs };
+    }
+    if (
+      result.outcome === 'cancelled' ||
+      result.outcome === 'configuration-error' ||
+      (untilFailure && isFailure(result.outcome))
+    ) {
+      break;
+    }
+  }
+
+  const passedCount = runs.filter(run => run.outcome === 'passed').length;
+  const failedCount = runs.filter(run => isFailure(run.outcome)).length;
+  const outcome =
+    runs.find(run => run.outcome !== 'passed')?.outcome ?? 'passed';
+
+  log(
+    `Ran the test ${runs.length} time${runs.length === 1 ? '' : 's'}: ` +
+      `${passedCount} passed, ${failedCount} failed; ` +
+      `overall outcome: ${displayLabelFromTestOutcome(outcome)}`
+  );
+  if (runs.length > 0) {
+    const durations = runs.map(run => run.elapsedMillis).sort((a, b) => a - b);
+    log(
+      `Run durations: min ${formatMillis(durations[0])}, ` +
+        `median ${formatMillis(median(durations))}, ` +
+        `max ${formatMillis(durations[durations.length - 1])}`
+    );
+  }
+  latencies.logStatistics();
+  if (firstFailure !== null) {
+    logRunLogs(firstFailure.runNumber, firstFailure.logs);
+  }
+
+  return { outcome, runs, passedCount, failedCount, latencies };
+}
+
+/** Returns whether the given outcome of a run counts as a failure. */
+function isFailure(outcome: TestOutcome): boolean {
+  return outcome === 'failed' || outcome === 'timed-out';
+}
+
+/** Returns the median of the given values, which must be sorted. */
+function median(sortedValues: Array<number>): number {
+  const middle = Math.floor(sortedValues.length / 2);
+  return sortedValues.length % 2 === 1
+    ? sortedValues[middle]
+    : (sortedValues[middle - 1] + sortedValues[middle]) / 2;
+}
+
+/** Formats the given number of milliseconds like `formatElapsedTime()`. */
+function formatMillis(milliseconds: number): string {
+  return formatElapsedTime(0, milliseconds);
+}
+
+/**
+ * Logs again the messages that were logged during a run, with the level and
+ * tag, and prefixed with the timestamp, with which they were originally
+ * logged.
+ */
+function logRunLogs(runNumber: number, logs: Array<LogMessage>): void {
+  log(`Logs of the first failed run (run ${runNumber}):`);
+  for (const message of logs) {
+    const text = `  ${message.timestamp} ${message.text}`;
+    if (message.tag === undefined) {
+      logWithLevel(message.level, text, message.options);
+    } else {
+      logTagged(message.tag, message.level, text);
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { onLog } from '@firebase/app';
+
+import { LogLevel, logTagged } from './logging.js';
+
+/** The name of the Firestore SDK's logger. */
+const FIRESTORE_SDK_NAME = '@firebase/firestore';
+
+/** Whether `captureSdkLogs()` has been called. */
+let sdkLogsCaptured = false;
+
+/**
+ * Routes the log messages of the Firestore SDK through `log()`'s pipeline, so
+ * that they are interleaved, and timestamped, with this application's own log
+ * messages, tagged "firestore".
+ *
+ * The messages of the other Firebase SDKs (e.g. Auth) are ignored. The Firestore
+ * SDK still writes its messages to the console itself, so `logTagged()` does not
+ * write them there a second time.
+ *
+ * Calling this function more than once has no effect.
+ */
+export function captureSdkLogs(): void {
+  if (sdkLogsCaptured) {
+    return;
+  }
+  sdkLogsCaptured = true;
+
+  // Capture all levels; the Firestore SDK only produces debug messages if its
+  // log level is "debug" (e.g. via Firestore's `setLogLevel()`).
+  onLog(onSdkLog, { level: 'debug' });
+}
+
+/** The subset of the parameters given to an `onLog()` callback that we use. */
+interface SdkLogParams {
+  /** The level of the message (e.g. "debug"). */
+  level: string;
+  /** The message, formatted as a string. */
+  message: string;
+  /** The name of the SDK's logger (e.g. "@firebase/firestore"). */
+  type: string;
+}
+
+function onSdkLog(params: SdkLogParams): void {
+  if (params.type !== FIRESTORE_SDK_NAME) {
+    return;
+  }
+  logTagged(
+    tagFromSdkName(params.type),
+    logLevelFromSdkLogLevel(params.level),
+    params.message
+  );
+}
+
+/**
+ * Returns the tag with which to log the messages of an SDK.
+ *
+ * @param sdkName the name of the SDK's logger (e.g. "@firebase/firestore").
+ * @return the tag (e.g. "firestore").
+ */
+function tagFromSdkName(sdkName: string): string {
+  const prefix = '@firebase/';
+  return sdkName.startsWith(prefix)
+    ? sdkName.substring(prefix.length)
+    : sdkName;
+}
+
+/**
+ * Returns the level at which to log an SDK message of the given level.
+ *
+ * The SDKs' "debug" and "verbose" messages are logged at the "info" level,
+ * rather than "debug", because the user has already opted into them by
+ * enabling the SDK's debug logging.
+ */
+function logLevelFromSdkLogLevel(sdkLogLevel: string): LogLevel {
+  switch (sdkLogLevel) {
+    case 'warn':
+      return 'warn';
+    case 'error':
+      return 'error';
+    default:
+      return 'info';
+  }
+}
@@ -14,15 +14,26 @@
  * limitations under the License.
  */
 
-import { setLogLevel } from '@firebase/firestore';
+import { setLogLevel, CACHE_SIZE_UNLIMITED } from '@firebase/firestore';
 
 import { API_KEY, HOST, PROJECT_ID } from '../firebase_config.js';
 import {
+  AuthMode,
+  DEFAULT_AUTH_EMULATOR_PORT,
+  DEFAULT_EMULATOR_PORT,
+  displayLabelFromAuthMode,
+  displayLabelFromPersistence,
   displayValueFromHost,
+  formatHostAndPort,
   FirestoreHost,
-  hostNameFromHost
+  FirestorePersistence,
+  hostNameFromHost,
+  InvalidCacheSizeError,
+  InvalidClientCountError,
+  InvalidTimeoutError
 } from './util.js';
-import { log } from './logging.js';
+import { log, LogLevel, setMinimumLogLevel } from './logging.js';
+import { DEFAULT_TEST_SCENARIO_NAME } from './test_scenario.js';
 
 class UnsupportedSettingValueTypeError extends Error {
   name = 'UnsupportedSettingValueTypeError';
@@ -44,6 +55,12 @@ export interface SettingValueBase {
   /** A human-friendly version of this setting's value to display in a UI. */
   readonly displayValue: string;
 
+  /**
+   * Whether this setting's value is a secret, such as a password, that should
+   * not be included in logs or other output that may be shared.
+   */
+  readonly isSecret: boolean;
+
   /**
    * Whether the value of this setting has been changed and not yet saved to
    * persistent storage.
@@ -131,6 +148,10 @@ export class SettingValue<T extends string | boolean>
     return `${this.value}`;
   }
 
+  get isSecret(): boolean {
+    return false;
+  }
+
   get isDirty(): boolean {
     return this._setValue !== null;
   }
@@ -223,17 +244,160 @@ export class SettingValue<T extends string | boolean>
   }
 }
 
+/**
+ * A specialization of `SettingValue` where the value is a secret, such as a
+ * password.
+ */
+export class SecretSettingValue extends SettingValue<string> {
+  get isSecret(): boolean {
+    return true;
+  }
+}
+
 /**
  * A specialization of `SettingValue` where the value is a "host ID" of the
  * Firestore backend to which to connect.
  */
 export class FirestoreHostSettingValue extends SettingValue<FirestoreHost> {
+  constructor(
+    storage: SettingsStorage,
+    name: string,
+    key: string,
+    defaultValue: FirestoreHost,
+    private readonly emulatorHost: SettingValue<string>,
+    private readonly customHost: SettingValue<string>,
+    private readonly customHostSsl: SettingValue<boolean>
+  ) {
+    super(storage, name, key, defaultValue);
+  }
+
   get displayValue(): string {
-    return displayValueFromHost(this.value);
+    return displayValueFromHost(this.value, this.hostName);
   }
 
+  /**
+   * The host name of the Firestore backend; for the "emulator" and "custom"
+   * hosts this also includes the port, if one was specified.
+   */
   get hostName(): string {
-    return hostNameFromHost(this.value);
+    const host = this.value;
+    switch (host) {
+      case 'emulator':
+        return this.emulatorHost.value;
+      case 'custom':
+        return this.customHost.value;
+      default:
+        return hostNameFromHost(host);
+    }
+  }
+
+  /** Whether to use SSL when communicating with the Firestore backend. */
+  get ssl(): boolean {
+    switch (this.value) {
+      case 'emulator':
+        return false;
+      case 'custom':
+        return this.customHostSsl.value;
+      default:
+        return true;
+    }
+  }
+}
+
+/**
+ * A specialization of `SettingValue` where the value is the way in which
+ * Firestore persists its local cache.
+ */
+export class FirestorePersistenceSettingValue extends SettingValue<FirestorePersistence> {
+  get displayValue(): string {
+    return displayLabelFromPersistence(this.value);
+  }
+}
+
+/**
+ * A specialization of `SettingValue` where the value is the size, in bytes, of
+ * Firestore's local cache, "unlimited", or the empty string to use the
+ * Firestore SDK's default.
+ */
+export class FirestoreCacheSizeSettingValue extends SettingValue<string> {
+  get displayValue(): string {
+    return this.value.length === 0 ? 'SDK default' : this.value;
+  }
+
+  /**
+   * The cache size to specify to Firestore as `cacheSizeBytes`, or `null` to
+   * use the SDK's default.
+   *
+   * @throws InvalidCacheSizeError if the value is not valid.
+   */
+  get bytes(): number | null {
+    const value = this.value.trim();
+    if (value.length === 0) {
+      return null;
+    } else if (value === 'unlimited') {
+      return CACHE_SIZE_UNLIMITED;
+    } else if (/^\d+$/.test(value)) {
+      return Number.parseInt(value);
+    }
+    throw new InvalidCacheSizeError(value);
+  }
+}
+
+/**
+ * A specialization of `SettingValue` where the value is the maximum number of
+ * seconds for which a test may run, or the empty string for no maximum.
+ */
+export class TimeoutSettingValue extends SettingValue<string> {
+  get displayValue(): string {
+    return this.value.length === 0 ? 'none' : `${this.value} seconds`;
+  }
+
+  /**
+   * The maximum number of milliseconds for which a test may run, or `null` if
+   * there is no maximum.
+   *
+   * @throws InvalidTimeoutError if the value is not valid.
+   */
+  get millis(): number | null {
+    const value = this.value.trim();
+    if (value.length === 0) {
+      return null;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds) && seconds > 0) {
+      return seconds * 1000;
+    }
+    throw new InvalidTimeoutError(value);
+  }
+}
+
+/**
+ * A specialization of `SettingValue` where the value is the number of clients
+ * that run the test concurrently, each with its own `Firestore` instances.
+ */
+export class ClientCountSettingValue extends SettingValue<string> {
+  /**
+   * The number of clients that run the test concurrently.
+   *
+   * @throws InvalidClientCountError if the value is not valid.
+   */
+  get count(): number {
+    const value = this.value.trim();
+    const count = Number(value);
+    if (value.length > 0 && Number.isInteger(count) && count > 0) {
+      return count;
+    }
+    throw new InvalidClientCountError(value);
+  }
+}
+
+/**
+ * A specialization of `SettingValue` where the value is the way in which the
+ * test signs in to Firebase Auth.
+ */
+export class AuthModeSettingValue extends SettingValue<AuthMode> {
+  get displayValue(): string {
+    return displayLabelFromAuthMode(this.value);
   }
 }
 
@@ -261,27 +425,178 @@ export class FirestoreDebugLogEnabledSettingValue extends SettingValue<boolean>
   }
 }
 
+let logLevelSettingApplied = false;
+
+/**
+ * A specialization of `SettingValue` where the value is the least severe level
+ * of the messages logged by this application.
+ */
+export class LogLevelSettingValue extends SettingValue<LogLevel> {
+  get isApplied(): boolean {
+    return logLevelSettingApplied;
+  }
+
+  /** @throws UnknownLogLevelError if the value is not a valid log level. */
+  apply(): void {
+    // Only consider the setting applied if it is valid, so that a subsequent
+    // test with a corrected value applies it.
+    setMinimumLogLevel(this.value);
+    logLevelSettingApplied = true;
+  }
+}
+
+/**
+ * The human-friendly name and value of a setting, as returned by
+ * `Settings.displayValues`.
+ */
+export interface SettingDisplayValue {
+  readonly name: string;
+  readonly key: string;
+  readonly value: string;
+}
+
+/** The value displayed in place of the values of secret settings. */
+const SECRET_DISPLAY_VALUE = '(hidden)';
+
 /**
  * This application's settings.
  */
 export class Settings {
+  readonly logLevel: LogLevelSettingValue;
   readonly debugLogEnabled: FirestoreDebugLogEnabledSettingValue;
   readonly host: FirestoreHostSettingValue;
+  readonly emulatorHost: SettingValue<string>;
+  readonly customHost: SettingValue<string>;
+  readonly customHostSsl: SettingValue<boolean>;
+  readonly persistence: FirestorePersistenceSettingValue;
+  readonly cacheSizeBytes: FirestoreCacheSizeSettingValue;
+  readonly forceLongPolling: SettingValue<boolean>;
+  readonly autoDetectLongPolling: SettingValue<boolean>;
+  readonly useFetchStreams: SettingValue<boolean>;
+  readonly authMode: AuthModeSettingValue;
+  readonly authUid: SettingValue<string>;
+  readonly authCustomClaims: SettingValue<string>;
+  readonly authEmail: SettingValue<string>;
+  readonly authPassword: SecretSettingValue;
+  readonly authEmulatorHost: SettingValue<string>;
   readonly projectId: SettingValue<string>;
   readonly apiKey: SettingValue<string>;
+  readonly testName: SettingValue<string>;
+  readonly cleanupEnabled: SettingValue<boolean>;
+  readonly timeout: TimeoutSettingValue;
+  readonly clientCount: ClientCountSettingValue;
 
   private constructor(storage: SettingsStorage) {
+    this.logLevel = new LogLevelSettingValue(
+      storage,
+      'Minimum log level',
+      'logLevel',
+      'info'
+    );
     this.debugLogEnabled = new FirestoreDebugLogEnabledSettingValue(
       storage,
       'Firestore debug logging',
       'debugLogEnabled',
       false
     );
+    this.emulatorHost = new SettingValue<string>(
+      storage,
+      'Firestore emulator host',
+      'emulatorHost',
+      formatHostAndPort({
+        hostName: hostNameFromHost('emulator'),
+        port: DEFAULT_EMULATOR_PORT
+      })
+    );
+    this.customHost = new SettingValue<string>(
+      storage,
+      'Custom Firestore host',
+      'customHost',
+      ''
+    );
+    this.customHostSsl = new SettingValue<boolean>(
+      storage,
+      'Custom Firestore host uses SSL',
+      'customHostSsl',
+      true
+    );
     this.host = new FirestoreHostSettingValue(
       storage,
       'Firestore host',
       'host',
-      HOST
+      HOST,
+      this.emulatorHost,
+      this.customHost,
+      this.customHostSsl
+    );
+    this.persistence = new FirestorePersistenceSettingValue(
+      storage,
+      'Firestore persistence',
+      'persistence',
+      'memory'
+    );
+    this.cacheSizeBytes = new FirestoreCacheSizeSettingValue(
+      storage,
+      'Firestore cache size',
+      'cacheSizeBytes',
+      ''
+    );
+    this.forceLongPolling = new SettingValue<boolean>(
+      storage,
+      'Firestore experimentalForceLongPolling',
+      'forceLongPolling',
+      false
+    );
+    this.autoDetectLongPolling = new SettingValue<boolean>(
+      storage,
+      'Firestore experimentalAutoDetectLongPolling',
+      'autoDetectLongPolling',
+      false
+    );
+    this.useFetchStreams = new SettingValue<boolean>(
+      storage,
+      'Firestore useFetchStreams',
+      'useFetchStreams',
+      false
+    );
+    this.authMode = new AuthModeSettingValue(
+      storage,
+      'Firebase Auth sign-in',
+      'authMode',
+      'none'
+    );
+    this.authUid = new SettingValue<string>(
+      storage,
+      'Firebase Auth custom claims user ID',
+      'authUid',
+      'test-user'
+    );
+    this.authCustomClaims = new SettingValue<string>(
+      storage,
+      'Firebase Auth custom claims',
+      'authCustomClaims',
+      '{}'
+    );
+    this.authEmail = new SettingValue<string>(
+      storage,
+      'Firebase Auth email',
+      'authEmail',
+      'test-user@example.com'
+    );
+    this.authPassword = new SecretSettingValue(
+      storage,
+      'Firebase Auth password',
+      'authPassword',
+      'test-password'
+    );
+    this.authEmulatorHost = new SettingValue<string>(
+      storage,
+      'Firebase Auth emulator host',
+      'authEmulatorHost',
+      formatHostAndPort({
+        hostName: hostNameFromHost('emulator'),
+        port: DEFAULT_AUTH_EMULATOR_PORT
+      })
     );
     this.projectId = new SettingValue<string>(
       storage,
@@ -295,10 +610,70 @@ export class Settings {
       'apiKey',
       API_KEY
     );
+    this.testName = new SettingValue<string>(
+      storage,
+      'Test',
+      'test',
+      DEFAULT_TEST_SCENARIO_NAME
+    );
+    this.cleanupEnabled = new SettingValue<boolean>(
+      storage,
+      'Delete created collections after each test',
+      'cleanupEnabled',
+      true
+    );
+    this.timeout = new TimeoutSettingValue(
+      storage,
+      'Test timeout',
+      'timeoutSeconds',
+      ''
+    );
+    this.clientCount = new ClientCountSettingValue(
+      storage,
+      'Concurrent clients',
+      'clientCount',
+      '1'
+    );
   }
 
   get all(): Array<SettingValueBase> {
-    return [this.debugLogEnabled, this.host, this.projectId, this.apiKey];
+    return [
+      this.logLevel,
+      this.debugLogEnabled,
+      this.host,
+      this.emulatorHost,
+      this.customHost,
+      this.customHostSsl,
+      this.persistence,
+      this.cacheSizeBytes,
+      this.forceLongPolling,
+      this.autoDetectLongPolling,
+      this.useFetchStreams,
+      this.authMode,
+      this.authUid,
+      this.authCustomClaims,
+      this.authEmail,
+      this.authPassword,
+      this.authEmulatorHost,
+      this.projectId,
+      this.apiKey,
+      this.testName,
+      this.cleanupEnabled,
+      this.timeout,
+      this.clientCount
+    ];
+  }
+
+  /**
+   * The name and display value of every setting, suitable for including in
+   * logs; the values of secret settings are omitted.
+   */
+  get displayValues(): Array<SettingDisplayValue> {
+    return this.all.map(setting => ({
+      name: setting.name,
+      key: setting.key,
+      value: setting.isSecret ? SECRET_DISPLAY_VALUE : setting.displayValue
+    }));
   }
 
   saveAll(): Array<SettingValueBase> {
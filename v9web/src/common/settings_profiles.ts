@@ -0,0 +1,309 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ConfigurationError } from './errors.js';
+import { Settings, SettingsStorage } from './settings.js';
+
+/**
+ * The name of the profile that always exists, and whose settings are stored
+ * without a key prefix, such that they are the settings that were used before
+ * profiles existed.
+ */
+export const DEFAULT_PROFILE_NAME = 'default';
+
+/** The key under which the names of the profiles are stored, as JSON. */
+const PROFILE_NAMES_KEY = 'profiles';
+
+/** The key under which the name of the active profile is stored. */
+const ACTIVE_PROFILE_NAME_KEY = 'activeProfile';
+
+/**
+ * A `SettingsStorage` that stores the settings of a profile in another storage,
+ * prefixing their keys with the name of the profile.
+ */
+class ProfileSettingsStorage implements SettingsStorage {
+  private readonly keyPrefix: string;
+
+  constructor(private readonly storage: SettingsStorage, profileName: string) {
+    this.keyPrefix = `profile.${profileName}.`;
+  }
+
+  clear(key: string): void {
+    this.storage.clear(this.keyPrefix + key);
+  }
+
+  load(key: string): string | null {
+    return this.storage.load(this.keyPrefix + key);
+  }
+
+  save(key: string, value: string): void {
+    this.storage.save(this.keyPrefix + key, value);
+  }
+}
+
+/**
+ * Named sets of settings, such as "emulator" and "prod with project B", one of
+ * which is active at a time.
+ *
+ * Each profile's settings are loaded by specifying the `SettingsStorage`
+ * returned from `storageFor()` to `Settings.load()`.
+ */
+export class SettingsProfiles {
+  /**
+   * @param storage the storage in which to store the profiles, other than the
+   * default profile, and their settings.
+   * @param defaultProfileStorage the storage in which to store the settings of
+   * the default profile, and the name of the active profile; this may differ
+   * from `storage` to, for example, store the active profile separately in
+   * each browser tab.
+   */
+  constructor(
+    private readonly storage: SettingsStorage,
+    private readonly defaultProfileStorage: SettingsStorage = storage
+  ) {}
+
+  /** The names of the profiles, starting with the default profile. */
+  get names(): Array<string> {
+    return [DEFAULT_PROFILE_NAME, ...this.loadNamedProfileNames()];
+  }
+
+  /** Returns whether a profile with the given name exists. */
+  has(name: string): boolean {
+    return this.names.includes(name);
+  }
+
+  /**
+   * The name of the active profile, which is the default profile unless
+   * another profile has been activated by `activate()`.
+   */
+  get activeName(): string {
+    const activeName = this.defaultProfileStorage.load(ACTIVE_PROFILE_NAME_KEY);
+    return activeName !== null && this.has(activeName)
+      ? activeName
+      : DEFAULT_PROFILE_NAME;
+  }
+
+  /** The storage of the settings of the active profile. */
+  get activeStorage(): SettingsStorage {
+    return this.storageFor(this.activeName);
+  }
+
+  /**
+   * Returns the storage of the settings of the profile with the given name.
+   *
+   * @throws UnknownProfileError if there is no profile with the given name.
+   */
+  storageFor(name: string): SettingsStorage {
+    this.verifyExists(name);
+    return name === DEFAULT_PROFILE_NAME
+      ? this.defaultProfileStorage
+      : new ProfileSettingsStorage(this.storage, name);
+  }
+
+  /**
+   * Makes the profile with the given name the active profile.
+   *
+   * @throws UnknownProfileError if there is no profile with the given name.
+   */
+  activate(name: string): void {
+    this.verifyExists(name);
+    if (name === DEFAULT_PROFILE_NAME) {
+      this.defaultProfileStorage.clear(ACTIVE_PROFILE_NAME_KEY);
+    } else {
+      this.defaultProfileStorage.save(ACTIVE_PROFILE_NAME_KEY, name);
+    }
+  }
+
+  /**
+   * Creates a profile with the given name, whose settings all have their
+   * default values.
+   *
+   * @throws InvalidProfileNameError if the name is invalid.
+   * @throws DuplicateProfileError if a profile with the name already exists.
+   */
+  create(name: string): void {
+    this.verifyNewName(name);
+    this.saveNamedProfileNames([...this.loadNamedProfileNames(), name]);
+  }
+
+  /**
+   * Creates a profile with the given name, whose settings are copied from the
+   * profile with the given source name.
+   *
+   * @throws UnknownProfileError if there is no profile with the source name.
+   * @throws InvalidProfileNameError if the new name is invalid.
+   * @throws DuplicateProfileError if a profile with the new name already
+   * exists.
+   */
+  duplicate(sourceName: string, newName: string): void {
+    const sourceStorage = this.storageFor(sourceName);
+    this.create(newName);
+    copySettings(sourceStorage, this.storageFor(newName));
+  }
+
+  /**
+   * Renames the profile with the given name, which remains active if it was.
+   *
+   * @throws UnknownProfileError if there is no profile with the old name.
+   * @throws DefaultProfileError if the old name is the default profile's.
+   * @throws InvalidProfileNameError if the new name is invalid.
+   * @throws DuplicateProfileError if a profile with the new name already
+   * exists.
+   */
+  rename(oldName: string, newName: string): void {
+    this.verifyNotDefault(oldName, 'renamed');
+    const wasActive = this.activeName === oldName;
+    this.duplicate(oldName, newName);
+    this.delete(oldName);
+    if (wasActive) {
+      this.activate(newName);
+    }
+  }
+
+  /**
+   * Deletes the profile with the given name, and its settings; if it was the
+   * active profile then the default profile becomes active.
+   *
+   * @throws UnknownProfileError if there is no profile with the given name.
+   * @throws DefaultProfileError if the name is the default profile's.
+   */
+  delete(name: string): void {
+    this.verifyNotDefault(name, 'deleted');
+    const storage = this.storageFor(name);
+    for (const setting of Settings.load(storage).all) {
+      storage.clear(setting.key);
+    }
+    if (this.activeName === name) {
+      this.activate(DEFAULT_PROFILE_NAME);
+    }
+    this.saveNamedProfileNames(
+      this.loadNamedProfileNames().filter(profileName => profileName !== name)
+    );
+  }
+
+  private loadNamedProfileNames(): Array<string> {
+    const json = this.storage.load(PROFILE_NAMES_KEY);
+    if (json === null) {
+      return [];
+    }
+    try {
+      const names: unknown = JSON.parse(json);
+      return Array.isArray(names)
+        ? names.filter((name): name is string => typeof name === 'string')
+        : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  private saveNamedProfileNames(names: Array<string>): void {
+    if (names.length === 0) {
+      this.storage.clear(PROFILE_NAMES_KEY);
+    } else {
+      this.storage.save(PROFILE_NAMES_KEY, JSON.stringify(names));
+    }
+  }
+
+  private verifyExists(name: string): void {
+    if (!this.has(name)) {
+      throw new UnknownProfileError(name, this.names);
+    }
+  }
+
+  private verifyNotDefault(name: string, operation: string): void {
+    if (name === DEFAULT_PROFILE_NAME) {
+      throw new DefaultProfileError(operation);
+    }
+  }
+
+  private verifyNewName(name: string): void {
+    if (name.trim().length === 0 || name !== name.trim()) {
+      throw new InvalidProfileNameError(name);
+    }
+    if (this.has(name)) {
+      throw new DuplicateProfileError(name);
+    }
+  }
+}
+
+/** Copies the value of every stored setting from one storage to another. */
+function copySettings(
+  sourceStorage: SettingsStorage,
+  destinationStorage: SettingsStorage
+): void {
+  for (const setting of Settings.load(sourceStorage).all) {
+    const value = sourceStorage.load(setting.key);
+    if (value === null) {
+      destinationStorage.clear(setting.key);
+    } else {
+      destinationStorage.save(setting.key, value);
+    }
+  }
+}
+
+/**
+ * Exception thrown if there is no profile with a given name, such as the name
+ * specified on the command line.
+ */
+export class UnknownProfileError extends ConfigurationError {
+  name = 'UnknownProfileError';
+
+  constructor(profileName: string, knownProfileNames: Array<string>) {
+    super(
+      `unknown settings profile: ${profileName} ` +
+        `(valid profiles are: ${knownProfileNames.join(', ')})`
+    );
+  }
+}
+
+/**
+ * Exception thrown by `SettingsProfiles` if a profile with a given name already
+ * exists.
+ */
+export class DuplicateProfileError extends Error {
+  name = 'DuplicateProfileError';
+
+  constructor(profileName: string) {
+    super(`a settings profile named "${profileName}" already exists`);
+  }
+}
+
+/**
+ * Exception thrown by `SettingsProfiles` if a profile name is empty or has
+ * leading or trailing whitespace.
+ */
+export class InvalidProfileNameError extends Error {
+  name = 'InvalidProfileNameError';
+
+  constructor(profileName: string) {
+    super(
+      `invalid settings profile name: "${profileName}" (must be non-empty, ` +
+        `without leading or trailing whitespace)`
+    );
+  }
+}
+
+/**
+ * Exception thrown by `SettingsProfiles` if asked to rename or delete the
+ * default profile.
+ */
+export class DefaultProfileError extends Error {
+  name = 'DefaultProfileError';
+
+  constructor(operation: string) {
+    super(`the "${DEFAULT_PROFILE_NAME}" profile cannot be ${operation}`);
+  }
+}
@@ -0,0 +1,420 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  CollectionReference,
+  DocumentChangeType,
+  DocumentReference,
+  DocumentSnapshot,
+  onSnapshot,
+  Query,
+  QuerySnapshot
+} from '@firebase/firestore';
+
+import { TestEnvironment } from './test_environment';
+
+/** A document change in a query snapshot recorded by `SnapshotRecorder`. */
+export interface RecordedDocumentChange {
+  /** The type of the change (e.g. "added"). */
+  readonly type: DocumentChangeType;
+
+  /** The ID of the document that changed. */
+  readonly id: string;
+}
+
+/** A snapshot received by the listener of a `SnapshotRecorder`. */
+export interface SnapshotEvent<T extends DocumentSnapshot | QuerySnapshot> {
+  /** The 0-based position of this event in `SnapshotRecorder.events`. */
+  readonly index: number;
+
+  /**
+   * The number of milliseconds between the listener being registered and this
+   * snapshot being received.
+   */
+  readonly elapsedMillis: number;
+
+  /** The snapshot, as given to the listener. */
+  readonly snapshot: T;
+
+  /** The value of `snapshot.metadata.fromCache`. */
+  readonly fromCache: boolean;
+
+  /** The value of `snapshot.metadata.hasPendingWrites`. */
+  readonly hasPendingWrites: boolean;
+
+  /**
+   * The document changes of a query snapshot, including metadata-only changes;
+   * always empty for document snapshots.
+   */
+  readonly docChanges: Array<RecordedDocumentChange>;
+}
+
+/** Options for `recordSnapshots()`. */
+export interface SnapshotRecorderOptions {
+  /**
+   * The name by which to refer to the listener in log messages (default: the
+   * path of the document or collection, or "query" for other queries).
+   */
+  name?: string;
+
+  /**
+   * Whether to record snapshots whose only changes are to their metadata
+   * (default: true).
+   */
+  includeMetadataChanges?: boolean;
+}
+
+/** Options for `SnapshotRecorder.waitFor()`. */
+export interface WaitForSnapshotOptions {
+  /**
+   * The maximum number of milliseconds to wait for a matching snapshot
+   * (default: 10 seconds).
+   */
+  timeoutMillis?: number;
+}
+
+/** A call to `SnapshotRecorder.waitFor()` that has not yet completed. */
+interface SnapshotWaiter<T extends DocumentSnapshot | QuerySnapshot> {
+  predicate: (event: SnapshotEvent<T>) => boolean;
+  resolve: (event: SnapshotEvent<T>) => void;
+  reject: (error: Error) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Registers a snapshot listener on a document that records, and logs, every
+ * snapshot that it receives.
+ *
+ * The listener is unregistered automatically when the test finishes or is
+ * cancelled, if `stop()` has not been called before then.
+ *
+ * @param env the environment of the running test.
+ * @param documentRef the document to listen to.
+ * @param options options for the listener.
+ * @return the newly-created recorder.
+ */
+export function recordSnapshots(
+  env: TestEnvironment,
+  documentRef: DocumentReference,
+  options?: SnapshotRecorderOptions
+): SnapshotRecorder<DocumentSnapshot>;
+
+/**
+ * Registers a snapshot listener on a query that records, and logs, every
+ * snapshot that it receives.
+ *
+ * The listener is unregistered automatically when the test finishes or is
+ * cancelled, if `stop()` has not been called before then.
+ *
+ * @param env the environment of the running test.
+ * @param query the query to listen to.
+ * @param options options for the listener.
+ * @return the newly-created recorder.
+ */
+export function recordSnapshots(
+  env: TestEnvironment,
+  query: Query,
+  options?: SnapshotRecorderOptions
+): SnapshotRecorder<QuerySnapshot>;
+
+export function recordSnapshots(
+  env: TestEnvironment,
+  target: DocumentReference | Query,
+  options?: SnapshotRecorderOptions
+): SnapshotRecorder<DocumentSnapshot> | SnapshotRecorder<QuerySnapshot> {
+  const name = options?.name ?? defaultNameFor(target);
+  const includeMetadataChanges = options?.includeMetadataChanges ?? true;
+
+  const log = (message: string) => env.log(message);
+  const recorder =
+    target instanceof DocumentReference
+      ? new SnapshotRecorder<DocumentSnapshot>(name, log)
+      : new SnapshotRecorder<QuerySnapshot>(name, log);
+
+  log(`onSnapshot(${name}) registering listener`);
+  const unsubscribe =
+    target instanceof DocumentReference
+      ? onSnapshot(
+          target,
+          { includeMetadataChanges },
+          snapshot =>
+            (recorder as SnapshotRecorder<DocumentSnapshot>).record(snapshot),
+          error => recorder.recordError(error)
+        )
+      : onSnapshot(
+          target,
+          { includeMetadataChanges },
+          snapshot =>
+            (recorder as SnapshotRecorder<QuerySnapshot>).record(snapshot),
+          error => recorder.recordError(error)
+        );
+
+  const unregisterCancelledCallback = env.cancellationToken?.onCancelled(() =>
+    recorder.stop(env.cancellationToken?.error ?? undefined)
+  );
+  recorder.setUnsubscribe(() => {
+    unsubscribe();
+    unregisterCancelledCallback?.();
+  });
+  env.onFinished(() => recorder.stop());
+
+  return recorder;
+}
+
+/**
+ * Records the snapshots received by a snapshot listener, and allows a test to
+ * wait for, and make assertions about, them.
+ *
+ * Instances should be created by `recordSnapshots()`.
+ */
+export class SnapshotRecorder<T extends DocumentSnapshot | QuerySnapshot> {
+  private readonly _events: Array<SnapshotEvent<T>> = [];
+  private readonly _waiters = new Set<SnapshotWaiter<T>>();
+  private readonly _startTime: DOMHighResTimeStamp = performance.now();
+  private _unsubscribe: (() => void) | null = null;
+  private _error: Error | null = null;
+  private _stopped = false;
+
+  /**
+   * @param name the name by which to refer to the listener in log messages.
+   * @param log the function with which to log messages, which is that of the
+   * test's environment so that, when several clients run the test, the
+   * messages identify the client.
+   */
+  constructor(
+    readonly name: string,
+    private readonly log: (message: string) => void
+  ) {}
+
+  /** The snapshots received so far, oldest first. */
+  get events(): Array<SnapshotEvent<T>> {
+    return Array.from(this._events);
+  }
+
+  /** The most-recently received snapshot, or `null` if none were received. */
+  get lastEvent(): SnapshotEvent<T> | null {
+    return this._events.length === 0
+      ? null
+      : this._events[this._events.length - 1];
+  }
+
+  /** Whether the listener has been unregistered. */
+  get stopped(): boolean {
+    return this._stopped;
+  }
+
+  /**
+   * Waits for a snapshot that satisfies the given predicate.
+   *
+   * The snapshots that have already been received are checked first, oldest
+   * first, so that a snapshot received before this method was called is not
+   * missed; use `SnapshotEvent.index` in the predicate to ignore older ones.
+   *
+   * @param predicate the function that returns whether a snapshot is the one
+   * being waited for.
+   * @param description a description of the snapshot being waited for, to be
+   * logged.
+   * @param options options for waiting.
+   * @return the first snapshot that satisfied the predicate.
+   * @throws SnapshotWaitTimeoutError if no matching snapshot is received in
+   * time; also rejects if the listener fails or is unregistered first.
+   */
+  waitFor(
+    predicate: (event: SnapshotEvent<T>) => boolean,
+    description: string,
+    options?: WaitForSnapshotOptions
+  ): Promise<SnapshotEvent<T>> {
+    const matchingEvent = this._events.find(predicate);
+    if (matchingEvent !== undefined) {
+      this.log(
+        `onSnapshot(${this.name}) ${description}: ` +
+          `already received as event #${matchingEvent.index + 1}`
+      );
+      return Promise.resolve(matchingEvent);
+    }
+    if (this._error !== null) {
+      return Promise.reject(this._error);
+    }
+    if (this._stopped) {
+      return Promise.reject(new SnapshotRecorderStoppedError(this.name));
+    }
+
+    const timeoutMillis = options?.timeoutMillis ?? 10000;
+    this.log(`onSnapshot(${this.name}) waiting for: ${description}`);
+    return new Promise((resolve, reject) => {
+      const waiter: SnapshotWaiter<T> = {
+        predicate,
+        resolve: event => {
+          this.log(
+            `onSnapshot(${this.name}) ${description}: ` +
+              `received as event #${event.index + 1}`
+          );
+          resolve(event);
+        },
+        reject,
+        timeoutId: setTimeout(() => {
+          this._waiters.delete(waiter);
+          reject(
+            new SnapshotWaitTimeoutError(
+              this.name,
+              description,
+              timeoutMillis,
+              this._events.length
+            )
+          );
+        }, timeoutMillis)
+      };
+      this._waiters.add(waiter);
+    });
+  }
+
+  /**
+   * Unregisters the listener, if it is not already unregistered.
+   *
+   * Any pending calls to `waitFor()` are rejected with the given error or, if
+   * not specified, with `SnapshotRecorderStoppedError`.
+   */
+  stop(error?: Error): void {
+    if (this._stopped) {
+      return;
+    }
+    this._stopped = true;
+    this.log(
+      `onSnapshot(${this.name}) unregistering listener ` +
+        `(${this._events.length} snapshot(s) received)`
+    );
+    this._unsubscribe?.();
+    this._unsubscribe = null;
+    this.rejectWaiters(error ?? new SnapshotRecorderStoppedError(this.name));
+  }
+
+  // private, only to be used by recordSnapshots().
+  setUnsubscribe(unsubscribe: () => void): void {
+    if (this._stopped) {
+      unsubscribe();
+    } else {
+      this._unsubscribe = unsubscribe;
+    }
+  }
+
+  // private, only to be used by recordSnapshots().
+  record(snapshot: T): void {
+    const event: SnapshotEvent<T> = {
+      index: this._events.length,
+      elapsedMillis: performance.now() - this._startTime,
+      snapshot,
+      fromCache: snapshot.metadata.fromCache,
+      hasPendingWrites: snapshot.metadata.hasPendingWrites,
+      docChanges:
+        snapshot instanceof QuerySnapshot
+          ? snapshot
+              .docChanges({ includeMetadataChanges: true })
+              .map(change => ({ type: change.type, id: change.doc.id }))
+          : []
+    };
+    this._events.push(event);
+    this.log(
+      `onSnapshot(${this.name}) event #${event.index + 1}: ${describe(event)}`
+    );
+
+    for (const waiter of Array.from(this._waiters)) {
+      if (waiter.predicate(event)) {
+        this._waiters.delete(waiter);
+        clearTimeout(waiter.timeoutId);
+        waiter.resolve(event);
+      }
+    }
+  }
+
+  // private, only to be used by recordSnapshots().
+  recordError(error: Error): void {
+    this.log(`onSnapshot(${this.name}) listener failed: ${error.message}`);
+    this._error = error;
+    this._stopped = true;
+    this._unsubscribe?.();
+    this._unsubscribe = null;
+    this.rejectWaiters(error);
+  }
+
+  private rejectWaiters(error: Error): void {
+    for (const waiter of this._waiters) {
+      clearTimeout(waiter.timeoutId);
+      waiter.reject(error);
+    }
+    this._waiters.clear();
+  }
+}
+
+/**
+ * Exception thrown by `SnapshotRecorder.waitFor()` if no matching snapshot is
+ * received before the timeout.
+ */
+export class SnapshotWaitTimeoutError extends Error {
+  name = 'SnapshotWaitTimeoutError';
+
+  constructor(
+    recorderName: string,
+    description: string,
+    timeoutMillis: number,
+    eventCount: number
+  ) {
+    super(
+      `onSnapshot(${recorderName}) timed out after ${timeoutMillis}ms ` +
+        `waiting for: ${description} (${eventCount} snapshot(s) received)`
+    );
+  }
+}
+
+/**
+ * Exception thrown by `SnapshotRecorder.waitFor()` if the listener is
+ * unregistered before a matching snapshot is received.
+ */
+export class SnapshotRecorderStoppedError extends Error {
+  name = 'SnapshotRecorderStoppedError';
+
+  constructor(recorderName: string) {
+    super(`onSnapshot(${recorderName}) listener was unregistered`);
+  }
+}
+
+/** Returns the name to use in log messages for a listener's target. */
+function defaultNameFor(target: DocumentReference | Query): string {
+  if (target instanceof DocumentReference) {
+    return target.path;
+  } else if (target instanceof CollectionReference) {
+    return target.path;
+  } else {
+    return 'query';
+  }
+}
+
+/** Returns a one-line description of a recorded snapshot, for logging. */
+function describe(event: SnapshotEvent<DocumentSnapshot | QuerySnapshot>) {
+  const snapshot = event.snapshot;
+  const contents =
+    snapshot instanceof QuerySnapshot
+      ? `size=${snapshot.size}, changes=[` +
+        event.docChanges
+          .map(change => `${change.type} ${change.id}`)
+          .join(', ') +
+        ']'
+      : `data=${JSON.stringify(snapshot.data())}`;
+  return (
+    `+${Math.round(event.elapsedMillis)}ms ${contents} ` +
+    `(fromCache=${event.fromCache}, ` +
+    `hasPendingWrites=${event.hasPendingWrites})`
+  );
+}
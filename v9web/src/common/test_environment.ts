@@ -17,14 +17,103 @@
 import { Firestore } from '@firebase/firestore';
 import { FirestoreHost } from './util';
 import { CancellationToken } from './cancellation_token';
+import { Assertions } from './assertions';
+import { TestAuth } from './auth_helper';
+import { NetworkController } from './network_controller';
 
 export interface TestEnvironment {
   /** The main Firestore instance. */
   readonly db: Firestore;
 
+  /**
+   * The ID of the client running the test, from 0 to `clientCount - 1`.
+   *
+   * When the "Concurrent clients" setting is greater than 1, the test is run
+   * concurrently by that many clients, each with its own Firestore instances,
+   * Auth state, network controller and cancellation token.
+   */
+  readonly clientId: number;
+
+  /** The number of clients running the test concurrently. */
+  readonly clientCount: number;
+
   /** A token to respond to the test being cancelled, if available. */
   readonly cancellationToken?: CancellationToken;
 
+  /**
+   * Assertions to check the results of the test's operations.
+   *
+   * A failed assertion throws an exception, which causes the test to fail.
+   */
+  readonly assert: Assertions;
+
+  /**
+   * The Firebase Auth state of the main Firestore instance.
+   *
+   * The user is signed in, as specified by the settings, before the test runs.
+   * Use this object to get the current user or to switch users mid-test.
+   */
+  readonly auth: TestAuth;
+
+  /**
+   * Takes the main or supplementary Firestore instances offline and online,
+   * either on demand or according to a schedule.
+   *
+   * Every instance that is offline when the test finishes is brought back
+   * online.
+   */
+  readonly network: NetworkController;
+
+  /**
+   * Registers a callback to be invoked when the test finishes, whether it
+   * passed or failed, such as to unregister snapshot listeners.
+   *
+   * Callbacks are invoked in the reverse order of their registration, before
+   * the collections and documents created by the test are cleaned up.
+   */
+  onFinished(callback: () => void | Promise<void>): void;
+
+  /**
+   * Runs the given operation, such as a Firestore call, and records how long
+   * it took.
+   *
+   * The latencies recorded for each label, by every client, are summarized in
+   * a table of percentiles when the test completes.
+   *
+   * @param label the label of the operation (e.g. "setDoc").
+   * @param operation the operation to run.
+   * @return the value with which the promise returned from the operation is
+   * fulfilled.
+   */
+  measure<T>(label: string, operation: () => Promise<T>): Promise<T>;
+
+  /**
+   * Logs a message, prefixed with the client ID if the test is run by more than
+   * one client.
+   */
+  log(message: string): void;
+
+  /**
+   * Waits for every client to arrive at the rendezvous point with the given
+   * name, sharing a value with the other clients.
+   *
+   * Each name may be used only once; to synchronize repeatedly (e.g. in a
+   * loop), use a distinct name each time. If only one client runs the test
+   * then this method returns immediately.
+   *
+   * @param name the name of the rendezvous point.
+   * @param value the value to share with the other clients.
+   * @return the values specified by each client, indexed by client ID.
+   */
+  rendezvous<T>(name: string, value: T): Promise<Array<T>>;
+
+  /**
+   * Waits for every client to arrive at the barrier with the given name.
+   *
+   * This is equivalent to `rendezvous()`, without sharing a value.
+   */
+  barrier(name: string): Promise<void>;
+
   /** The name of the Firebase app, as specified to initializeApp(). */
   readonly appName: string;
 
@@ -37,7 +126,10 @@ export interface TestEnvironment {
   /** The Firestore host. */
   readonly host: FirestoreHost;
 
-  /** The Firestore host name (e.g. "localhost"). */
+  /**
+   * The Firestore host name (e.g. "localhost"), including the port for the
+   * emulator and custom hosts, if one was specified (e.g. "localhost:8080").
+   */
   readonly hostName: string;
 
   /** Whether ssl is used when communicating with the Firestore host. */
@@ -56,7 +148,10 @@ export interface TestEnvironment {
    * @param instanceId The ID to use for the instance; each distinct instanceId
    * will result in a distinct Firestore instance, and invoking with the same
    * instance ID as a previous invocation will return the exact same Firestore
-   * instance.
+   * instance. Each client has its own instances, so the same instance ID
+   * results in a different instance in each client; it must be an integer
+   * that is at least 0 and less than 1000.
+   * @throws InvalidInstanceIdError if the instance ID is out of range.
    */
   getFirestore(instanceId: number): Firestore;
 }
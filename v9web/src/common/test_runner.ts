@@ -0,0 +1,641 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Firestore, terminate } from '@firebase/firestore';
+
+import { AssertionFailedError, Assertions } from './assertions.js';
+import { TestAuth } from './auth_helper.js';
+import {
+  CancelledError,
+  CancellationToken,
+  CancellationTokenSource
+} from './cancellation_token.js';
+import { ClientRendezvous } from './client_rendezvous.js';
+import {
+  CreatedResourceTracker,
+  setCreatedResourceTracker
+} from './cleanup.js';
+import { ConfigurationError } from './errors.js';
+import { LatencyRecorder } from './latency_recorder.js';
+import { getFirestore } from './firestore_helper.js';
+import {
+  getLastUntaggedLogMessage,
+  log,
+  logError,
+  logWarn
+} from './logging.js';
+import { NetworkController } from './network_controller.js';
+import { Settings } from './settings.js';
+import { TestEnvironment } from './test_environment';
+import { TestScenario, TestScenarioRegistry } from './test_scenario';
+import { formatElapsedTime } from './util.js';
+
+/**
+ * The possible outcomes of running a test.
+ *
+ * "configuration-error" means that the test could not be run, or failed,
+ * because of an invalid or unsupported configuration (see
+ * `ConfigurationError`), rather than because of a problem detected by the test.
+ */
+export type TestOutcome =
+  | 'passed'
+  | 'failed'
+  | 'cancelled'
+  | 'timed-out'
+  | 'configuration-error';
+
+/** The result of running a test via `runTest()`. */
+export interface TestRunResult {
+  /** Whether the test passed or failed. */
+  readonly outcome: TestOutcome;
+
+  /** The number of milliseconds that the test took to run. */
+  readonly elapsedMillis: number;
+
+  /** The number of assertions that the test checked, including failures. */
+  readonly assertionCount: number;
+
+  /** The exception that caused the test to fail, if any. */
+  readonly error?: unknown;
+
+  /**
+   * Why the test was cancelled, if the outcome is "cancelled" or "timed-out".
+   */
+  readonly cancellationReason?: string;
+
+  /** The latencies measured by the test via `TestEnvironment.measure()`. */
+  readonly latencies: LatencyRecorder;
+}
+
+/** Options for `runTest()`. */
+export interface TestRunOptions {
+  /** A token to respond to the test being cancelled, if available. */
+  readonly cancellationToken?: CancellationToken;
+
+  /** The name of the settings profile from which the settings were loaded. */
+  readonly profileName?: string;
+
+  /**
+   * The object in which to record the latencies measured by the test, such as
+   * to aggregate them across runs. If omitted, then a new object is used, and
+   * its statistics are logged when the test completes.
+   */
+  readonly latencyRecorder?: LatencyRecorder;
+
+  /**
+   * Whether to terminate the main Firestore instance after the test completes.
+   *
+   * This should be `true` if the process is going to exit after the test
+   * completes, and `false` if the Firestore instance may be reused by a
+   * subsequent test.
+   */
+  readonly terminateFirestore: boolean;
+}
+
+/**
+ * Runs the test selected in the given settings, and logs its outcome.
+ *
+ * This function does not throw; any exception thrown while setting up or
+ * running the test is logged and causes the test to fail.
+ *
+ * @param scenarios the tests from which to choose the test to run.
+ * @param settings the settings to use; the `testName` setting selects the test
+ * to run and the other settings specify how to create the `Firestore`
+ * instance.
+ * @param options options for running the test.
+ * @return the result of running the test.
+ */
+export async function runTest(
+  scenarios: TestScenarioRegistry,
+  settings: Settings,
+  options: TestRunOptions
+): Promise<TestRunResult> {
+  const startTime: DOMHighResTimeStamp = performance.now();
+
+  // The token for this run, which is cancelled if either the caller's token is
+  // cancelled or the timeout specified in the settings elapses.
+  const cancellationTokenSource = new CancellationTokenSource(
+    options.cancellationToken
+  );
+  const cancellationToken = cancellationTokenSource.cancellationToken;
+  const unregisterCancelledCallback = cancellationToken.onCancelled(() =>
+    logCancellation(cancellationToken, settings)
+  );
+
+  const latencies = options.latencyRecorder ?? new LatencyRecorder();
+  const clients: Array<TestClient> = [];
+  let error: unknown = undefined;
+  let failed = false;
+  try {
+    // Apply the log level first so that it applies to every message logged by
+    // the test; an invalid level is reported as a configuration error.
+    if (!settings.logLevel.isApplied) {
+      settings.logLevel.apply();
+    }
+    log(
+      'Test Started' +
+        (options.profileName === undefined
+          ? ''
+          : ` (settings profile: ${options.profileName})`)
+    );
+
+    const timeoutMillis = settings.timeout.millis;
+    if (timeoutMillis !== null) {
+      cancellationTokenSource.cancelAfter(timeoutMillis);
+    }
+
+    const scenario = scenarios.get(settings.testName.value);
+    const clientCount = settings.clientCount.count;
+    log(
+      `Running test: ${scenario.name} (${scenario.description})` +
+        (clientCount === 1 ? '' : ` with ${clientCount} concurrent clients`)
+    );
+
+    const onFinishedCallbacks: Array<() => void | Promise<void>> = [];
+    const rendezvous = new ClientRendezvous(clientCount);
+    for (let clientId = 0; clientId < clientCount; clientId++) {
+      clients.push(
+        await createTestClient(
+          clientId,
+          settings,
+          cancellationToken,
+          rendezvous,
+          latencies,
+          onFinishedCallbacks
+        )
+      );
+    }
+
+    // The clients share one tracker, which deletes the documents of each
+    // client using that client's own Firestore instance.
+    const createdResourceTracker = new CreatedResourceTracker();
+    setCreatedResourceTracker(createdResourceTracker);
+    try {
+      await untilCancelled(runClients(scenario, clients), cancellationToken);
+    } finally {
+      await invokeOnFinishedCallbacks(onFinishedCallbacks);
+      for (const client of clients) {
+        await restoreNetwork(client.env.network);
+      }
+      setCreatedResourceTracker(null);
+      if (cancellationToken.timedOut) {
+        // The backend may be unreachable, in which case cleanup would also
+        // hang, so don't even try.
+        if (!createdResourceTracker.isEmpty) {
+          createdResourceTracker.logRetained(
+            'skipped because the test timed out'
+          );
+        }
+      } else {
+        await cleanUp(createdResourceTracker, settings);
+      }
+      if (options.terminateFirestore) {
+        log('Terminating Firestore');
+        for (const client of clients) {
+          await terminate(client.env.db);
+        }
+      }
+    }
+  } catch (e) {
+    failed = true;
+    error = e;
+    logTestError(e);
+  } finally {
+    clients.forEach(client => client.cancellationTokenSource.dispose());
+    cancellationTokenSource.dispose();
+    unregisterCancelledCallback();
+  }
+
+  const endTime: DOMHighResTimeStamp = performance.now();
+  const outcome = testOutcomeFrom(
+    failed || clients.some(client => client.env.assert.failedCount > 0),
+    error,
+    cancellationToken
+  );
+  const assertionCount = clients.reduce(
+    (count, client) => count + client.env.assert.checkedCount,
+    0
+  );
+  if (options.latencyRecorder === undefined) {
+    latencies.logStatistics();
+  }
+  const cancellationReason =
+    outcome === 'cancelled' || outcome === 'timed-out'
+      ? cancellationToken.reason ?? undefined
+      : undefined;
+  log(
+    `Test completed in ${formatElapsedTime(startTime, endTime)}: ` +
+      `${displayLabelFromTestOutcome(outcome)} ` +
+      (cancellationReason === undefined ? '' : `(${cancellationReason}) `) +
+      `(${assertionCount} assertion${assertionCount === 1 ? '' : 's'} checked)`
+  );
+
+  return {
+    outcome,
+    elapsedMillis: endTime - startTime,
+    assertionCount,
+    error,
+    cancellationReason,
+    latencies
+  };
+}
+
+/**
+ * One of the clients that run a test concurrently, as configured by the
+ * "Concurrent clients" setting; when there is only one client, it is the test.
+ */
+interface TestClient {
+  /** The environment in which the client runs the test. */
+  readonly env: TestEnvironment;
+
+  /**
+   * The source of `env.cancellationToken`, which is cancelled when the test is
+   * cancelled or when another client fails.
+   */
+  readonly cancellationTokenSource: CancellationTokenSource;
+}
+
+/**
+ * The difference between the instance IDs specified to `getFirestore()` for
+ * the Firestore instances of consecutive clients, other than client 0, which
+ * uses the instance IDs specified to `TestEnvironment.getFirestore()` as-is.
+ */
+const CLIENT_INSTANCE_ID_STRIDE = 1001;
+
+/**
+ * The exclusive upper bound of the instance IDs that may be specified to
+ * `TestEnvironment.getFirestore()`, so that the instances of one client do not
+ * collide with those of the next.
+ */
+const MAX_SUPPLEMENTARY_INSTANCE_ID = CLIENT_INSTANCE_ID_STRIDE - 1;
+
+/**
+ * Returns the instance ID to specify to `getFirestore()` for the given
+ * instance of the given client.
+ *
+ * @param clientId the ID of the client.
+ * @param instanceId the instance ID specified to
+ * `TestEnvironment.getFirestore()`, or `null` for the client's main instance.
+ */
+function clientInstanceId(
+  clientId: number,
+  instanceId: number | null
+): number | undefined {
+  if (clientId === 0) {
+    return instanceId ?? undefined;
+  }
+  const mainInstanceId = clientId * CLIENT_INSTANCE_ID_STRIDE;
+  return instanceId === null ? mainInstanceId : mainInstanceId + 1 + instanceId;
+}
+
+/**
+ * Exception thrown by `TestEnvironment.getFirestore()` if the given instance ID
+ * is not an integer in the supported range.
+ */
+export class InvalidInstanceIdError extends Error {
+  name = 'InvalidInstanceIdError';
+
+  constructor(instanceId: number) {
+    super(
+      `invalid instance ID: ${instanceId} (it must be an integer that is ` +
+        `at least 0 and less than ${MAX_SUPPLEMENTARY_INSTANCE_ID})`
+    );
+  }
+}
+
+/**
+ * Creates the Firestore instance, Auth state and environment of one of the
+ * clients that run a test.
+ *
+ * @param clientId the ID of the client to create.
+ * @param settings the settings of the test.
+ * @param cancellationToken the token of the test, whose cancellation cancels
+ * the client.
+ * @param rendezvous the object with which the clients synchronize.
+ * @param latencies the object in which to record measured latencies.
+ * @param onFinishedCallbacks the list to which to add the callbacks specified
+ * to `TestEnvironment.onFinished()`.
+ */
+async function createTestClient(
+  clientId: number,
+  settings: Settings,
+  cancellationToken: CancellationToken,
+  rendezvous: ClientRendezvous,
+  latencies: LatencyRecorder,
+  onFinishedCallbacks: Array<() => void | Promise<void>>
+): Promise<TestClient> {
+  const clientCount = rendezvous.clientCount;
+  const namePrefix = clientCount === 1 ? '' : `client ${clientId} `;
+  const cancellationTokenSource = new CancellationTokenSource(
+    cancellationToken
+  );
+  const clientCancellationToken = cancellationTokenSource.cancellationToken;
+
+  try {
+    const dbInfo = getFirestore(settings, clientInstanceId(clientId, null));
+    const auth = await untilCancelled(
+      TestAuth.initialize(dbInfo.db.app, settings),
+      clientCancellationToken
+    );
+    const network = new NetworkController(dbInfo.db, clientCancellationToken);
+    if (clientCount > 1) {
+      network.setInstanceName(
+        dbInfo.db,
+        `${namePrefix}main Firestore instance`
+      );
+    }
+
+    const env: TestEnvironment = {
+      ...dbInfo,
+      clientId,
+      clientCount,
+      cancellationToken: clientCancellationToken,
+      assert: new Assertions(clientCancellationToken),
+      auth,
+      network,
+      getFirestore(instanceId: number): Firestore {
+        if (
+          !Number.isInteger(instanceId) ||
+          instanceId < 0 ||
+          instanceId >= MAX_SUPPLEMENTARY_INSTANCE_ID
+        ) {
+          throw new InvalidInstanceIdError(instanceId);
+        }
+        const db = getFirestore(
+          settings,
+          clientInstanceId(clientId, instanceId)
+        ).db;
+        network.setInstanceName(
+          db,
+          `${namePrefix}Firestore instance ${instanceId}`
+        );
+        return db;
+      },
+      onFinished(callback: () => void | Promise<void>): void {
+        onFinishedCallbacks.push(callback);
+      },
+      measure<T>(label: string, operation: () => Promise<T>): Promise<T> {
+        return latencies.measure(label, operation);
+      },
+      log(message: string): void {
+        log(clientCount === 1 ? message : `client ${clientId}: ${message}`);
+      },
+      rendezvous<T>(name: string, value: T): Promise<Array<T>> {
+        return rendezvous.arrive(
+          name,
+          clientId,
+          value,
+          clientCancellationToken
+        );
+      },
+      async barrier(name: string): Promise<void> {
+        await rendezvous.arrive(name, clientId, null, clientCancellationToken);
+      }
+    };
+
+    return { env, cancellationTokenSource };
+  } catch (e) {
+    cancellationTokenSource.dispose();
+    throw e;
+  }
+}
+
+/**
+ * Runs the given test concurrently in each of the given clients.
+ *
+ * If a client fails then the other clients are cancelled, so that they do not
+ * wait forever for the failed client (e.g. in `TestEnvironment.barrier()`).
+ *
+ * @throws the exception with which the first client to fail failed.
+ */
+async function runClients(
+  scenario: TestScenario,
+  clients: Array<TestClient>
+): Promise<void> {
+  if (clients.length === 1) {
+    await scenario.run(clients[0].env);
+    return;
+  }
+
+  const errors: Array<unknown> = [];
+  await Promise.allSettled(
+    clients.map(async client => {
+      const { env, cancellationTokenSource } = client;
+      try {
+        await untilCancelled(
+          scenario.run(env),
+          cancellationTokenSource.cancellationToken
+        );
+      } catch (e) {
+        if (errors.length === 0 && !(e instanceof CancelledError)) {
+          logWarn(
+            `Client ${env.clientId} failed; cancelling the other clients`
+          );
+          for (const otherClient of clients) {
+            if (otherClient !== client) {
+              otherClient.cancellationTokenSource.cancel(
+                `client ${env.clientId} failed`
+              );
+            }
+          }
+        }
+        errors.push(e);
+        throw e;
+      }
+    })
+  );
+
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+}
+
+/**
+ * Determines the outcome of a test.
+ *
+ * @param failed whether the test failed, for any reason.
+ * @param error the exception that caused the test to fail, if any.
+ * @param cancellationToken the token used to cancel the test.
+ */
+function testOutcomeFrom(
+  failed: boolean,
+  error: unknown,
+  cancellationToken: CancellationToken
+): TestOutcome {
+  if (!failed) {
+    return 'passed';
+  } else if (error instanceof ConfigurationError) {
+    return 'configuration-error';
+  } else if (cancellationToken.timedOut) {
+    return 'timed-out';
+  } else if (cancellationToken.cancelled) {
+    return 'cancelled';
+  } else {
+    return 'failed';
+  }
+}
+
+/** Returns the string with which to log the given outcome of a test. */
+export function displayLabelFromTestOutcome(outcome: TestOutcome): string {
+  switch (outcome) {
+    case 'passed':
+      return 'PASSED';
+    case 'failed':
+      return 'FAILED';
+    case 'cancelled':
+      return 'CANCELLED';
+    case 'timed-out':
+      return 'TIMED OUT';
+    case 'configuration-error':
+      return 'CONFIGURATION ERROR';
+  }
+}
+
+/**
+ * Waits for the given promise to settle, or for the given token to be
+ * cancelled, whichever happens first.
+ *
+ * This allows a test that is blocked on an operation that never completes,
+ * such as a `getDoc()` call against an unreachable host, to be abandoned when
+ * it is cancelled or times out.
+ *
+ * @return the value with which the given promise is fulfilled.
+ * @throws the exception with which the given promise is rejected, or
+ * `CancelledError` if the token is cancelled first.
+ */
+function untilCancelled<T>(
+  promise: Promise<T>,
+  cancellationToken: CancellationToken
+): Promise<T> {
+  // Ignore the outcome of the promise if it settles after cancellation, to
+  // avoid an "unhandled promise rejection" error.
+  promise.catch(() => {});
+
+  const cancelled = cancellationToken.whenCancelled().then(error => {
+    throw error;
+  });
+  return Promise.race([promise, cancelled]);
+}
+
+/**
+ * Logs that a test was cancelled or timed out, including the operation that it
+ * was performing, as indicated by the most-recently logged message.
+ */
+function logCancellation(
+  cancellationToken: CancellationToken,
+  settings: Settings
+): void {
+  const lastMessage = getLastUntaggedLogMessage();
+  const lastOperation =
+    lastMessage === null
+      ? ''
+      : `; the last operation logged (at ${lastMessage.timestamp}) was: ` +
+        lastMessage.text;
+  if (cancellationToken.timedOut) {
+    logError(
+      `Test timed out after ${settings.timeout.displayValue}${lastOperation}`
+    );
+  } else {
+    logWarn(`Test cancelled (${cancellationToken.reason})${lastOperation}`);
+  }
+}
+
+/**
+ * Deletes the collections and documents created by a test, unless disabled by
+ * the given settings.
+ *
+ * Failures are logged but otherwise ignored, so that they do not affect the
+ * outcome of the test.
+ */
+async function cleanUp(
+  tracker: CreatedResourceTracker,
+  settings: Settings
+): Promise<void> {
+  if (tracker.isEmpty) {
+    return;
+  }
+  if (!settings.cleanupEnabled.value) {
+    tracker.logRetained();
+    return;
+  }
+
+  try {
+    await tracker.deleteAll();
+  } catch (e) {
+    logWarn(`Cleanup failed: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+/**
+ * Invokes the callbacks registered by a test via `TestEnvironment.onFinished()`,
+ * most-recently registered first.
+ *
+ * Failures are logged but otherwise ignored, so that one failed callback does
+ * not prevent the others from being invoked.
+ */
+async function invokeOnFinishedCallbacks(
+  callbacks: Array<() => void | Promise<void>>
+): Promise<void> {
+  for (const callback of Array.from(callbacks).reverse()) {
+    try {
+      await callback();
+    } catch (e) {
+      logWarn(
+        `onFinished() callback failed: ${e instanceof Error ? e.message : e}`
+      );
+    }
+  }
+}
+
+/**
+ * Brings every Firestore instance that was taken offline by a test back online,
+ * so that the collections and documents that it created can be cleaned up.
+ *
+ * Failures are logged but otherwise ignored, so that they do not affect the
+ * outcome of the test.
+ */
+async function restoreNetwork(network: NetworkController): Promise<void> {
+  try {
+    await network.restore();
+  } catch (e) {
+    logWarn(
+      `Restoring the network failed: ${e instanceof Error ? e.message : e}`
+    );
+  }
+}
+
+/** Logs an exception that was thrown while running a test. */
+function logTestError(e: unknown): void {
+  if (e instanceof AssertionFailedError) {
+    // The details of the failed assertion have already been logged.
+    return;
+  }
+  if (e instanceof CancelledError) {
+    // The cancellation has already been logged, by `logCancellation()`.
+    return;
+  }
+  if (e instanceof ConfigurationError) {
+    // The message describes what to fix; a stack trace would only be noise.
+    logError(e.message);
+  } else if (e instanceof Error) {
+    logError(e.message, { alsoLogToConsole: false });
+    // Write the stack trace to stderr so that it is kept separate from any
+    // machine-readable output written to stdout.
+    console.error(e.stack);
+  } else {
+    logError(`${e}`);
+  }
+}
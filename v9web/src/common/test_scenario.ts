@@ -0,0 +1,128 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ConfigurationError } from './errors.js';
+import { TestEnvironment } from './test_environment';
+
+/**
+ * The name of the test to run if the user does not select one.
+ *
+ * The test with this name must be registered in `testScenarios`.
+ */
+export const DEFAULT_TEST_SCENARIO_NAME = 'run_the_test';
+
+/**
+ * A named test that can be selected and run by the user.
+ */
+export interface TestScenario {
+  /**
+   * The name of the test, which uniquely identifies it in the registry.
+   *
+   * This is the name that the user specifies to select the test, so it should
+   * be short and contain no spaces (e.g. "get_set_get").
+   */
+  readonly name: string;
+
+  /** A human-friendly, one-line description of what the test does. */
+  readonly description: string;
+
+  /**
+   * Runs the test.
+   *
+   * @param env the environment in which to run the test, including the main
+   * `Firestore` instance to use.
+   */
+  run(env: TestEnvironment): Promise<void>;
+}
+
+/**
+ * A collection of `TestScenario` objects, keyed by their name.
+ */
+export class TestScenarioRegistry {
+  private readonly scenariosByName = new Map<string, TestScenario>();
+
+  /**
+   * Adds a test to this registry.
+   *
+   * @param scenario the test to add.
+   * @throws DuplicateTestScenarioError if a test with the same name is already
+   * registered.
+   */
+  register(scenario: TestScenario): void {
+    if (this.scenariosByName.has(scenario.name)) {
+      throw new DuplicateTestScenarioError(scenario.name);
+    }
+    this.scenariosByName.set(scenario.name, scenario);
+  }
+
+  /**
+   * Gets the test with the given name.
+   *
+   * @param name the name of the test to get.
+   * @return the test with the given name.
+   * @throws UnknownTestScenarioError if no test with the given name is
+   * registered.
+   */
+  get(name: string): TestScenario {
+    const scenario = this.scenariosByName.get(name);
+    if (scenario === undefined) {
+      throw new UnknownTestScenarioError(name, this.names);
+    }
+    return scenario;
+  }
+
+  /** Returns whether a test with the given name is registered. */
+  has(name: string): boolean {
+    return this.scenariosByName.has(name);
+  }
+
+  /** The registered tests, in the order in which they were registered. */
+  get all(): Array<TestScenario> {
+    return Array.from(this.scenariosByName.values());
+  }
+
+  /** The names of the registered tests, in registration order. */
+  get names(): Array<string> {
+    return Array.from(this.scenariosByName.keys());
+  }
+}
+
+/**
+ * Exception thrown by `TestScenarioRegistry.register()` if a test with the same
+ * name is already registered.
+ */
+export class DuplicateTestScenarioError extends Error {
+  name = 'DuplicateTestScenarioError';
+
+  constructor(scenarioName: string) {
+    super(`a test named "${scenarioName}" is already registered`);
+  }
+}
+
+/**
+ * Exception thrown by `TestScenarioRegistry.get()` if no test with the given
+ * name is registered.
+ */
+export class UnknownTestScenarioError extends ConfigurationError {
+  name = 'UnknownTestScenarioError';
+
+  constructor(scenarioName: string, knownScenarioNames: Array<string>) {
+    super(
+      `unknown test: ${scenarioName} ` +
+        `(valid tests are: ${knownScenarioNames.join(', ')})`
+    );
+  }
+}
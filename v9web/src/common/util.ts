@@ -25,7 +25,9 @@ import {
   WriteBatch
 } from '@firebase/firestore';
 
+import { ConfigurationError } from './errors.js';
 import { log } from './logging.js';
+import { trackCreatedCollection, trackCreatedDocument } from './cleanup.js';
 
 /**
  * Generates and returns a random-ish number.
@@ -76,19 +78,44 @@ export function formatElapsedTime(
   }
 }
 
+/**
+ * Returns a promise that is fulfilled after the given number of milliseconds.
+ *
+ * @param milliseconds the number of milliseconds to wait.
+ */
+export function sleep(milliseconds: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
+
 /**
  * Creates and returns a new, empty collection in the given Firestore database.
  *
- * @param db the Firestore database in which to create the collection.
+ * The collection is deleted after the test completes, unless cleanup is
+ * disabled in the settings.
+ *
+ * @param parent the Firestore database in which to create the collection, or
+ * the document in which to create it as a subcollection.
  * @param namePrefix a string to prepend to the name of the collection.
  * @return a newly-created, empty collection in the given Firestore database.
  */
 export function createEmptyCollection(
-  db: Firestore,
+  parent: Firestore | DocumentReference,
   namePrefix?: string
 ): CollectionReference {
+  let db: Firestore;
+  let parentPath: string;
+  if (parent instanceof DocumentReference) {
+    db = parent.firestore;
+    parentPath = `${parent.path}/`;
+  } else {
+    db = parent;
+    parentPath = '';
+  }
+
   const collectionId = (namePrefix ?? '') + generateUniqueResourceId(db);
-  return collection(db, collectionId);
+  const collectionRef = collection(db, parentPath + collectionId);
+  trackCreatedCollection(collectionRef);
+  return collectionRef;
 }
 
 export interface DocumentSpecs {
@@ -102,6 +129,9 @@ export type CreatedDocuments<T extends DocumentSpecs> = {
 /**
  * Creates a document in the given Firestore collection.
  *
+ * The document is deleted after the test completes, unless cleanup is disabled
+ * in the settings.
+ *
  * @param collectionRef The collection in which to create the documents.
  * @param documentId the ID (name) of the document to create.
  * @param documentData the data to populate the document with.
@@ -188,6 +218,7 @@ async function createDocumentsFromDocumentSpecs<T extends DocumentSpecs>(
         )}`
       );
       writeBatch_.set(documentRef, documentData);
+      trackCreatedDocument(documentRef);
     }
   );
 
@@ -222,6 +253,7 @@ async function createDocumentsFromDocumentCreateCount<T extends DocumentSpecs>(
         )}`
       );
       writeBatch_.set(documentRef, documentDataForCurrentDocument);
+      trackCreatedDocument(documentRef);
     }
   );
 
@@ -261,11 +293,17 @@ function performWritesInBatches<T>(
 
 /**
  * The IDs of known Firestore hosts.
+ *
+ * The "custom" host is one whose host name, port and SSL usage are specified
+ * explicitly, rather than being one of the well-known "preset" hosts.
  */
-export type FirestoreHost = 'prod' | 'emulator' | 'nightly' | 'qa';
+export type FirestoreHost = 'prod' | 'emulator' | 'nightly' | 'qa' | 'custom';
+
+/** The IDs of the Firestore hosts whose host names are well known. */
+export type PresetFirestoreHost = Exclude<FirestoreHost, 'custom'>;
 
 /** Returns the host name for the given Firestore host. */
-export function hostNameFromHost(host: FirestoreHost): string {
+export function hostNameFromHost(host: PresetFirestoreHost): string {
   switch (host) {
     case 'prod':
       return 'firestore.googleapis.com';
@@ -279,9 +317,17 @@ export function hostNameFromHost(host: FirestoreHost): string {
   throw new UnknownFirestoreHostError(host);
 }
 
-export function displayValueFromHost(hostId: FirestoreHost): string {
+/** The port on which the Firestore emulator listens by default. */
+export const DEFAULT_EMULATOR_PORT = 8080;
+
+/** The port on which the Firebase Auth emulator listens by default. */
+export const DEFAULT_AUTH_EMULATOR_PORT = 9099;
+
+export function displayValueFromHost(
+  hostId: FirestoreHost,
+  hostName: string
+): string {
   const label = displayLabelFromHost(hostId);
-  const hostName = hostNameFromHost(hostId);
   return `${label} (${hostName})`;
 }
 
@@ -295,10 +341,109 @@ export function displayLabelFromHost(hostId: FirestoreHost): string {
       return 'Nightly';
     case 'qa':
       return 'QA';
+    case 'custom':
+      return 'Custom';
   }
   throw new UnknownFirestoreHostError(hostId);
 }
 
+/** A host name and, optionally, a port. */
+export interface HostAndPort {
+  readonly hostName: string;
+  readonly port: number | null;
+}
+
+/**
+ * Parses a string of the form "host" or "host:port" (e.g. "localhost:8080").
+ *
+ * An IPv6 address must be enclosed in square brackets (e.g. "[::1]:8080"); the
+ * brackets are retained in the returned host name, so that it can be combined
+ * with a port, or used in a URL, as-is.
+ *
+ * @param value the string to parse.
+ * @return the host name and port parsed from the given string.
+ * @throws InvalidHostAndPortError if the given string is not a valid host name
+ * with an optional port.
+ */
+export function parseHostAndPort(value: string): HostAndPort {
+  const match = value
+    .trim()
+    .match(/^([^:\s[\]]+|\[[\da-fA-F:.]+\])(?::(\d+))?$/);
+  if (!match) {
+    throw new InvalidHostAndPortError(value);
+  }
+
+  const hostName = match[1];
+  if (match[2] === undefined) {
+    return { hostName, port: null };
+  }
+
+  const port = Number.parseInt(match[2]);
+  if (port < 1 || port > 65535) {
+    throw new InvalidHostAndPortError(value);
+  }
+  return { hostName, port };
+}
+
+/** Formats the given host and port into a string, like "localhost:8080". */
+export function formatHostAndPort(hostAndPort: HostAndPort): string {
+  return hostAndPort.port === null
+    ? hostAndPort.hostName
+    : `${hostAndPort.hostName}:${hostAndPort.port}`;
+}
+
+/**
+ * The IDs of the ways in which Firestore can persist its local cache.
+ *
+ * "memory" caches only in memory, "indexeddb" persists the cache in IndexedDB
+ * and allows only a single tab to access it, and "multi-tab" persists the
+ * cache in IndexedDB and shares it between tabs.
+ */
+export type FirestorePersistence = 'memory' | 'indexeddb' | 'multi-tab';
+
+export function displayLabelFromPersistence(
+  persistence: FirestorePersistence
+): string {
+  switch (persistence) {
+    case 'memory':
+      return 'Memory';
+    case 'indexeddb':
+      return 'IndexedDB (single tab)';
+    case 'multi-tab':
+      return 'IndexedDB (multi-tab)';
+  }
+  throw new UnknownFirestorePersistenceError(persistence);
+}
+
+/**
+ * The IDs of the ways in which the test can sign in to Firebase Auth before it
+ * runs.
+ *
+ * "none" does not sign in, "anonymous" signs in as a new anonymous user,
+ * "custom-claims" signs in with a custom token containing the given claims
+ * (supported only by the Auth emulator), and "email-password" signs in with an
+ * email address and password.
+ */
+export type AuthMode =
+  | 'none'
+  | 'anonymous'
+  | 'custom-claims'
+  | 'email-password';
+
+export function displayLabelFromAuthMode(authMode: AuthMode): string {
+  switch (authMode) {
+    case 'none':
+      return 'Not signed in';
+    case 'anonymous':
+      return 'Anonymous';
+    case 'custom-claims':
+      return 'Custom claims';
+    case 'email-password':
+      return 'Email and password';
+  }
+  throw new UnknownAuthModeError(authMode);
+}
+
 /**
  * Returns whether the given value is a "placeholder" value for `PROJECT_ID` or
  * `API_KEY` that is committed into the GitHub repository.
@@ -314,7 +459,7 @@ export function isPlaceholderValue(value: string): boolean {
  * Exception thrown if a method is given a string that is not equal to one of
  * strings in the `FirestoreHost` union type.
  */
-export class UnknownFirestoreHostError extends Error {
+export class UnknownFirestoreHostError extends ConfigurationError {
   name = 'UnknownFirestoreHostError';
 
   constructor(host: string) {
@@ -322,10 +467,105 @@ export class UnknownFirestoreHostError extends Error {
   }
 }
 
+/**
+ * Exception thrown if a method is given a string that is not equal to one of
+ * strings in the `FirestorePersistence` union type.
+ */
+export class UnknownFirestorePersistenceError extends ConfigurationError {
+  name = 'UnknownFirestorePersistenceError';
+
+  constructor(persistence: string) {
+    super(`unknown persistence: ${persistence}`);
+  }
+}
+
+/**
+ * Exception thrown if a method is given a string that is not equal to one of
+ * strings in the `AuthMode` union type.
+ */
+export class UnknownAuthModeError extends ConfigurationError {
+  name = 'UnknownAuthModeError';
+
+  constructor(authMode: string) {
+    super(`unknown auth mode: ${authMode}`);
+  }
+}
+
+/**
+ * Exception thrown if a string is not a valid Firestore cache size.
+ */
+export class InvalidCacheSizeError extends ConfigurationError {
+  name = 'InvalidCacheSizeError';
+
+  constructor(value: string) {
+    super(
+      `invalid cache size: "${value}" ` +
+        `(expected a number of bytes or "unlimited")`
+    );
+  }
+}
+
+/**
+ * Exception thrown if a string is not a valid test timeout.
+ */
+export class InvalidTimeoutError extends ConfigurationError {
+  name = 'InvalidTimeoutError';
+
+  constructor(value: string) {
+    super(
+      `invalid timeout: "${value}" ` +
+        `(expected a positive number of seconds, or empty for no timeout)`
+    );
+  }
+}
+
+/**
+ * Exception thrown if both the "force long polling" and "auto-detect long
+ * polling" settings are enabled, which Firestore does not allow.
+ */
+export class ConflictingLongPollingSettingsError extends ConfigurationError {
+  name = 'ConflictingLongPollingSettingsError';
+
+  constructor() {
+    super(
+      'experimentalForceLongPolling and experimentalAutoDetectLongPolling ' +
+        'cannot both be enabled'
+    );
+  }
+}
+
+/**
+ * Exception thrown if a string is not a valid number of concurrent clients.
+ */
+export class InvalidClientCountError extends ConfigurationError {
+  name = 'InvalidClientCountError';
+
+  constructor(value: string) {
+    super(
+      `invalid number of clients: "${value}" (expected a positive integer)`
+    );
+  }
+}
+
+/**
+ * Exception thrown if a string is not a valid "host" or "host:port" value.
+ */
+export class InvalidHostAndPortError extends ConfigurationError {
+  name = 'InvalidHostAndPortError';
+
+  constructor(value: string) {
+    super(
+      `invalid host: "${value}" ` +
+        `(expected a host name and optional port, like "localhost:8080", ` +
+        `with IPv6 addresses in square brackets, like "[::1]:8080")`
+    );
+  }
+}
+
 /**
  * The exception thrown when the PROJECT_ID is not set to a valid value, but is
  * instead left with the placeholder, and a valid value is required.
  */
-export class PlaceholderProjectIdNotAllowedError extends Error {
+export class PlaceholderProjectIdNotAllowedError extends ConfigurationError {
   name = 'PlaceholderProjectIdNotAllowedError';
 }
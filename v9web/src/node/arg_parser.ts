@@ -15,7 +15,10 @@
  */
 
 import { API_KEY, HOST, PROJECT_ID } from '../firebase_config.js';
-import { FirestoreHost } from '../common/util.js';
+import { LOG_LEVELS, LogLevel } from '../common/logging.js';
+import { ExitCode } from './exit_code.js';
+import { OUTPUT_FORMATS, OutputFormat } from './logging.js';
+import { AuthMode, FirestorePersistence } from '../common/util.js';
 
 // @ts-ignore
 import yargs from 'yargs/yargs';
@@ -48,6 +51,13 @@ export function parseArgs(): ParsedArgs {
         type: 'boolean',
         describe: `Connect to the Firestore emulator.`
       },
+      emulatorHost: {
+        type: 'string',
+        describe:
+          `The host name and port of the Firestore emulator ` +
+          `(default: $FIRESTORE_EMULATOR_HOST if set, otherwise ` +
+          `127.0.0.1:8080); does not imply --emulator.`
+      },
       nightly: {
         type: 'boolean',
         describe: `Connect to the Firestore nightly instance.`
@@ -56,6 +66,90 @@ export function parseArgs(): ParsedArgs {
         type: 'boolean',
         describe: `Connect to the Firestore QA instance.`
       },
+      customHost: {
+        type: 'string',
+        describe:
+          `Connect to the Firestore host with the given host name and ` +
+          `optional port (e.g. "localhost:9090").`
+      },
+      ssl: {
+        type: 'boolean',
+        describe:
+          `Whether to use SSL when connecting to the host specified by ` +
+          `--customHost (default: true); specify --no-ssl to disable it.`
+      },
+      persistence: {
+        choices: ['memory', 'indexeddb', 'multi-tab'],
+        describe: `The way in which Firestore persists its local cache.`
+      },
+      cacheSizeBytes: {
+        type: 'string',
+        describe:
+          `The size of Firestore's local cache, in bytes, ` +
+          `or "unlimited" to disable garbage collection.`
+      },
+      forceLongPolling: {
+        type: 'boolean',
+        describe:
+          `Set the experimentalForceLongPolling Firestore setting ` +
+          `(--no-forceLongPolling sets it to false).`
+      },
+      autoDetectLongPolling: {
+        type: 'boolean',
+        describe:
+          `Set the experimentalAutoDetectLongPolling Firestore setting ` +
+          `(--no-autoDetectLongPolling sets it to false).`
+      },
+      useFetchStreams: {
+        type: 'boolean',
+        describe:
+          `Set the useFetchStreams Firestore setting ` +
+          `(--no-useFetchStreams sets it to false).`
+      },
+      auth: {
+        choices: ['none', 'anonymous', 'custom-claims', 'email-password'],
+        describe:
+          `How to sign in to Firebase Auth before running the test; ` +
+          `when using the emulator, the Auth emulator is used too.`
+      },
+      authUid: {
+        type: 'string',
+        describe: `The user ID as whom to sign in with --auth custom-claims.`
+      },
+      authClaims: {
+        type: 'string',
+        describe:
+          `The custom claims, as a JSON object, with which to sign in ` +
+          `with --auth custom-claims (e.g. '{"admin": true}').`
+      },
+      authEmail: {
+        type: 'string',
+        describe: `The email with which to sign in with --auth email-password.`
+      },
+      authPassword: {
+        type: 'string',
+        describe:
+          `The password with which to sign in with ` + `--auth email-password.`
+      },
+      authEmulatorHost: {
+        type: 'string',
+        describe:
+          `The host name and port of the Auth emulator ` +
+          `(default: $FIREBASE_AUTH_EMULATOR_HOST if set, otherwise ` +
+          `127.0.0.1:9099).`
+      },
+      output: {
+        choices: OUTPUT_FORMATS,
+        describe:
+          `The format of the output: "text" for human-readable lines, ` +
+          `or "json" for one JSON object per line, ending with a summary ` +
+          `of the run (default: text).`
+      },
+      logLevel: {
+        choices: LOG_LEVELS,
+        describe:
+          `The least severe level of the messages to log ` + `(default: info).`
+      },
       quiet: {
         alias: 'q',
         type: 'boolean',
@@ -65,18 +159,100 @@ export function parseArgs(): ParsedArgs {
         alias: 'd',
         type: 'boolean',
         describe: `Enable Firestore debug logging.`
+      },
+      test: {
+        alias: 't',
+        type: 'string',
+        describe: `The name of the test to run (see --list-tests).`
+      },
+      cleanup: {
+        type: 'boolean',
+        describe:
+          `Delete the collections and documents created by the test after ` +
+          `it completes (default: true); specify --no-cleanup to keep them.`
+      },
+      timeout: {
+        type: 'number',
+        describe:
+          `The maximum number of seconds for which the test may run ` +
+          `before it is cancelled (default: no maximum).`
+      },
+      clients: {
+        type: 'number',
+        describe:
+          `The number of clients that run the test concurrently, each with ` +
+          `its own Firestore instances (default: 1).`
+      },
+      repeat: {
+        type: 'number',
+        describe:
+          `The number of times to run the test, then print statistics ` +
+          `about the runs and the logs of the first failed run.`
+      },
+      untilFailure: {
+        type: 'boolean',
+        describe:
+          `Run the test repeatedly until it fails, at most --repeat times ` +
+          `if specified.`
+      },
+      settingsFile: {
+        type: 'string',
+        describe:
+          `The JSON file from which to load settings, and to which --save ` +
+          `saves them (default: ~/.config/v9web/settings.json).`
+      },
+      profile: {
+        type: 'string',
+        describe:
+          `The name of the settings profile, in the settings file, from ` +
+          `which to load settings, and to which --save saves them ` +
+          `(default: "default").`
+      },
+      save: {
+        type: 'boolean',
+        describe:
+          `Save the settings specified by the other arguments to the ` +
+          `settings file, so that subsequent runs use them by default.`
+      },
+      listTests: {
+        type: 'boolean',
+        describe: `Print the names of the available tests and exit.`
       }
     })
-    .check(checkMutuallyExclusive('prod', 'emulator', 'nightly', 'qa'))
+    .check(
+      checkMutuallyExclusive('prod', 'emulator', 'nightly', 'qa', 'customHost')
+    )
     .check(checkMutuallyExclusive('debug', 'quiet'))
+    .check(checkPositiveInteger('clients'))
+    .check(checkPositiveInteger('repeat'))
+    .fail(onParseFailure)
     .help()
     .parseSync();
 }
 
+/**
+ * Reports invalid command-line arguments and exits the process with the exit
+ * code for configuration errors, rather than yargs' default of 1, which is the
+ * exit code for a failed test.
+ */
+function onParseFailure(
+  message: string | undefined,
+  error: Error | undefined,
+  parser: { showHelp(): void }
+): never {
+  parser.showHelp();
+  console.error();
+  console.error(message ?? error?.message);
+  process.exit(ExitCode.CONFIGURATION_ERROR);
+}
+
 export function updateSettingsFromParsedArgs(
   parsedArgs: ParsedArgs,
   settings: Settings
 ): void {
+  if (parsedArgs.logLevel !== undefined) {
+    settings.logLevel.setValue(parsedArgs.logLevel);
+  }
   if (parsedArgs.debug !== undefined) {
     settings.debugLogEnabled.setValue(true);
   }
@@ -96,6 +272,52 @@ export function updateSettingsFromParsedArgs(
   if (parsedArgs.qa !== undefined) {
     settings.host.setValue('qa');
   }
+  if (parsedArgs.emulatorHost !== undefined) {
+    settings.emulatorHost.setValue(parsedArgs.emulatorHost);
+  }
+  if (parsedArgs.customHost !== undefined) {
+    settings.host.setValue('custom');
+    settings.customHost.setValue(parsedArgs.customHost);
+  }
+  if (parsedArgs.ssl !== undefined) {
+    settings.customHostSsl.setValue(parsedArgs.ssl);
+  }
+
+  if (parsedArgs.persistence !== undefined) {
+    settings.persistence.setValue(parsedArgs.persistence);
+  }
+  if (parsedArgs.cacheSizeBytes !== undefined) {
+    settings.cacheSizeBytes.setValue(parsedArgs.cacheSizeBytes);
+  }
+
+  if (parsedArgs.forceLongPolling !== undefined) {
+    settings.forceLongPolling.setValue(parsedArgs.forceLongPolling);
+  }
+  if (parsedArgs.autoDetectLongPolling !== undefined) {
+    settings.autoDetectLongPolling.setValue(parsedArgs.autoDetectLongPolling);
+  }
+  if (parsedArgs.useFetchStreams !== undefined) {
+    settings.useFetchStreams.setValue(parsedArgs.useFetchStreams);
+  }
+
+  if (parsedArgs.auth !== undefined) {
+    settings.authMode.setValue(parsedArgs.auth);
+  }
+  if (parsedArgs.authUid !== undefined) {
+    settings.authUid.setValue(parsedArgs.authUid);
+  }
+  if (parsedArgs.authClaims !== undefined) {
+    settings.authCustomClaims.setValue(parsedArgs.authClaims);
+  }
+  if (parsedArgs.authEmail !== undefined) {
+    settings.authEmail.setValue(parsedArgs.authEmail);
+  }
+  if (parsedArgs.authPassword !== undefined) {
+    settings.authPassword.setValue(parsedArgs.authPassword);
+  }
+  if (parsedArgs.authEmulatorHost !== undefined) {
+    settings.authEmulatorHost.setValue(parsedArgs.authEmulatorHost);
+  }
 
   if (parsedArgs.projectId) {
     settings.projectId.setValue(parsedArgs.projectId);
@@ -103,6 +325,18 @@ export function updateSettingsFromParsedArgs(
   if (parsedArgs.apiKey) {
     settings.apiKey.setValue(parsedArgs.apiKey);
   }
+  if (parsedArgs.test) {
+    settings.testName.setValue(parsedArgs.test);
+  }
+  if (parsedArgs.cleanup !== undefined) {
+    settings.cleanupEnabled.setValue(parsedArgs.cleanup);
+  }
+  if (parsedArgs.timeout !== undefined) {
+    settings.timeout.setValue(`${parsedArgs.timeout}`);
+  }
+  if (parsedArgs.clients !== undefined) {
+    settings.clientCount.setValue(`${parsedArgs.clients}`);
+  }
 }
 
 /**
@@ -113,10 +347,36 @@ export interface ParsedArgs {
   apiKey?: string;
   prod?: boolean;
   emulator?: boolean;
+  emulatorHost?: string;
   nightly?: boolean;
   qa?: boolean;
+  customHost?: string;
+  ssl?: boolean;
+  persistence?: FirestorePersistence;
+  cacheSizeBytes?: string;
+  forceLongPolling?: boolean;
+  autoDetectLongPolling?: boolean;
+  useFetchStreams?: boolean;
+  auth?: AuthMode;
+  authUid?: string;
+  authClaims?: string;
+  authEmail?: string;
+  authPassword?: string;
+  authEmulatorHost?: string;
+  output?: OutputFormat;
+  logLevel?: LogLevel;
   quiet?: boolean;
   debug?: boolean;
+  test?: string;
+  cleanup?: boolean;
+  timeout?: number;
+  clients?: number;
+  repeat?: number;
+  untilFailure?: boolean;
+  settingsFile?: string;
+  profile?: string;
+  save?: boolean;
+  listTests?: boolean;
 }
 
 /**
@@ -140,3 +400,24 @@ function checkMutuallyExclusive(
     return true;
   };
 }
+
+/**
+ * Verifies that the given argument, if set, is a positive integer.
+ *
+ * @param argName the name of the argument to check.
+ * @return a function suitable for specifying to yargs.check() to verify the
+ * value of the argument.
+ */
+function checkPositiveInteger(
+  argName: keyof ParsedArgs
+): (argv: ParsedArgs) => true {
+  return (argv: ParsedArgs): true => {
+    const value = argv[argName];
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      throw new Error(
+        `${argName} must be a positive integer, but got: ${value}`
+      );
+    }
+    return true;
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { TestOutcome } from '../common/test_runner';
+
+/**
+ * The exit codes of this program.
+ *
+ * These are part of this program's interface, as scripts (e.g. in CI) use them
+ * to determine the outcome of a test; do not change existing values.
+ */
+export enum ExitCode {
+  /** The test passed. */
+  PASSED = 0,
+  /** The test failed. */
+  FAILED = 1,
+  /**
+   * The test could not be run, or failed, because of an invalid or unsupported
+   * configuration, including invalid command-line arguments.
+   */
+  CONFIGURATION_ERROR = 2,
+  /** The test was cancelled, or timed out. */
+  CANCELLED = 3
+}
+
+/** Returns the exit code with which to report the given outcome of a test. */
+export function exitCodeFromTestOutcome(outcome: TestOutcome): ExitCode {
+  switch (outcome) {
+    case 'passed':
+      return ExitCode.PASSED;
+    case 'failed':
+      return ExitCode.FAILED;
+    case 'cancelled':
+    case 'timed-out':
+      return ExitCode.CANCELLED;
+    case 'configuration-error':
+      return ExitCode.CONFIGURATION_ERROR;
+  }
+}
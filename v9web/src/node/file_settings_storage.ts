@@ -0,0 +1,151 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { ConfigurationError } from '../common/errors.js';
+import { SettingsStorage } from '../common/settings.js';
+
+/**
+ * Returns the path of the settings file to use if none is specified on the
+ * command line: "v9web/settings.json" in the user's configuration directory.
+ */
+export function defaultSettingsFilePath(): string {
+  let configDir: string;
+  if (process.platform === 'win32' && process.env.APPDATA) {
+    configDir = process.env.APPDATA;
+  } else if (process.env.XDG_CONFIG_HOME) {
+    configDir = process.env.XDG_CONFIG_HOME;
+  } else {
+    configDir = path.join(os.homedir(), '.config');
+  }
+  return path.join(configDir, 'v9web', 'settings.json');
+}
+
+/**
+ * A `SettingsStorage` that stores the settings in a JSON file, as an object
+ * whose properties are the keys of the settings.
+ *
+ * The file is read once, when this object is created, and is rewritten every
+ * time that a setting is saved or cleared. The file is made readable only by
+ * the user whenever it is written, since it may contain secrets such as
+ * passwords.
+ */
+export class FileSettingsStorage implements SettingsStorage {
+  private readonly values: Map<string, string>;
+
+  /**
+   * @param filePath the path of the JSON file; it need not exist.
+   * @throws InvalidSettingsFileError if the file exists but cannot be read or
+   * does not contain a JSON object whose property values are all strings.
+   */
+  constructor(readonly filePath: string) {
+    this.values = readSettingsFile(filePath);
+  }
+
+  /** Whether no settings are stored, such as if the file does not exist. */
+  get isEmpty(): boolean {
+    return this.values.size === 0;
+  }
+
+  /** @throws InvalidSettingsFileError if the file cannot be written. */
+  clear(key: string): void {
+    if (this.values.delete(key)) {
+      this.write();
+    }
+  }
+
+  load(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+
+  /** @throws InvalidSettingsFileError if the file cannot be written. */
+  save(key: string, value: string): void {
+    this.values.set(key, value);
+    this.write();
+  }
+
+  private write(): void {
+    const json = JSON.stringify(Object.fromEntries(this.values), null, 2);
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, json + '\n', { mode: 0o600 });
+      // The mode specified to writeFileSync() only applies if it creates the
+      // file, so also set it on a file that already existed.
+      fs.chmodSync(this.filePath, 0o600);
+    } catch (e) {
+      throw new InvalidSettingsFileError(this.filePath, (e as Error).message);
+    }
+  }
+}
+
+/**
+ * Reads the settings from the given JSON file.
+ *
+ * @return the settings read from the file, or an empty map if the file does
+ * not exist.
+ */
+function readSettingsFile(filePath: string): Map<string, string> {
+  let json: string;
+  try {
+    json = fs.readFileSync(filePath, 'utf8');
+  } catch (e) {
+    if ((e as { code?: unknown }).code === 'ENOENT') {
+      return new Map();
+    }
+    throw new InvalidSettingsFileError(filePath, (e as Error).message);
+  }
+
+  let parsedJson: unknown;
+  try {
+    parsedJson = JSON.parse(json);
+  } catch (e) {
+    throw new InvalidSettingsFileError(filePath, (e as Error).message);
+  }
+
+  if (
+    typeof parsedJson !== 'object' ||
+    parsedJson === null ||
+    Array.isArray(parsedJson)
+  ) {
+    throw new InvalidSettingsFileError(filePath, 'expected a JSON object');
+  }
+  const values = new Map<string, string>();
+  for (const [key, value] of Object.entries(parsedJson)) {
+    if (typeof value !== 'string') {
+      throw new InvalidSettingsFileError(
+        filePath,
+        `expected the value of "${key}" to be a string`
+      );
+    }
+    values.set(key, value);
+  }
+  return values;
+}
+
+/**
+ * Exception thrown by `FileSettingsStorage` if the settings file is invalid, or
+ * cannot be read or written.
+ */
+export class InvalidSettingsFileError extends ConfigurationError {
+  name = 'InvalidSettingsFileError';
+
+  constructor(filePath: string, reason: string) {
+    super(`invalid settings file: ${filePath} (${reason})`);
+  }
+}
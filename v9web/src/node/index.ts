@@ -16,38 +16,43 @@
 
 import { createHash } from 'node:crypto';
 
-import { terminate } from '@firebase/firestore';
+import { SDK_VERSION } from '@firebase/app';
 
+import { CancellationTokenSource } from '../common/cancellation_token.js';
 import {
-  getFirestore,
   Hasher,
   setHasher,
-  setBase64Encode
+  setBase64Encode,
+  terminateAllFirestoreInstances
 } from '../common/firestore_helper.js';
-import { parseArgs, updateSettingsFromParsedArgs } from './arg_parser.js';
-import { SettingsStorage, Settings } from '../common/settings.js';
-import { runTheTest } from '../run_the_test.js';
-import { initialize as initializeLogging } from './logging.js';
+import {
+  ParsedArgs,
+  parseArgs,
+  updateSettingsFromParsedArgs
+} from './arg_parser.js';
+import { ExitCode, exitCodeFromTestOutcome } from './exit_code.js';
+import {
+  defaultSettingsFilePath,
+  FileSettingsStorage
+} from './file_settings_storage.js';
+import { cancelOnSignals } from './signal_handler.js';
+import { Settings, SettingsStorage } from '../common/settings.js';
+import {
+  DEFAULT_PROFILE_NAME,
+  SettingsProfiles
+} from '../common/settings_profiles.js';
+import { testScenarios } from '../scenarios/index.js';
+import {
+  initialize as initializeLogging,
+  setOutputFormat,
+  writeJsonLine
+} from './logging.js';
+import { runTest, TestRunResult } from '../common/test_runner.js';
+import {
+  runTestRepeatedly,
+  RepeatedTestRunResult
+} from '../common/repeated_test_runner.js';
 import { log } from '../common/logging.js';
-import { formatElapsedTime } from '../common/util.js';
-import { TestEnvironment } from '../common/test_environment';
-import { Firestore } from '@firebase/firestore/dist';
-
-class MemorySettingsStorage implements SettingsStorage {
-  readonly map = new Map<string, string>();
-
-  clear(key: string): void {
-    this.map.delete(key);
-  }
-
-  load(key: string): string | null {
-    return this.map.get(key) ?? null;
-  }
-
-  save(key: string, value: string): void {
-    this.map.set(key, value);
-  }
-}
 
 class HasherImpl implements Hasher {
   private data: string = '';
@@ -84,11 +89,140 @@ function base64Encode(data: string): string {
 }
 
 /**
- * Callback invoked whenever the "Enable Debug Logging" checkbox's checked state
- * changes.
+ * Updates the given settings from environment variables.
  *
- * Sets up the `Firestore` instance and invoke the `runTheTest()` function from
- * `run_the_test.ts`.
+ * The command-line arguments take precedence over environment variables, so
+ * this function should be invoked _before_ applying the command-line arguments.
+ */
+function updateSettingsFromEnvironmentVariables(settings: Settings): void {
+  // The Firebase CLI sets this environment variable in the environment of the
+  // command run by `firebase emulators:exec` to the address of the emulator.
+  const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+  if (emulatorHost) {
+    log(`Using FIRESTORE_EMULATOR_HOST=${emulatorHost}`);
+    settings.emulatorHost.setValue(emulatorHost);
+  }
+
+  // Similarly, the Firebase CLI sets this environment variable to the address
+  // of the Auth emulator, if it is running.
+  const authEmulatorHost = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+  if (authEmulatorHost) {
+    log(`Using FIREBASE_AUTH_EMULATOR_HOST=${authEmulatorHost}`);
+    settings.authEmulatorHost.setValue(authEmulatorHost);
+  }
+}
+
+/**
+ * Saves the settings specified by the given command-line arguments (but not
+ * those specified by environment variables) to the given storage, so that they
+ * are used by subsequent runs.
+ */
+function saveSettingsFromParsedArgs(
+  parsedArgs: ParsedArgs,
+  storage: SettingsStorage,
+  storageDescription: string
+): void {
+  const settings = Settings.load(storage);
+  updateSettingsFromParsedArgs(parsedArgs, settings);
+  const savedSettings = settings.saveAll();
+  log(
+    `Saved ${savedSettings.length} setting(s) to ${storageDescription}` +
+      (savedSettings.length === 0
+        ? ''
+        : `: ${savedSettings.map(setting => setting.key).join(', ')}`)
+  );
+}
+
+/**
+ * Prints the name and description of each available test.
+ *
+ * @param print the function with which to print each line.
+ */
+function printTestScenarios(print: (line: string) => void): void {
+  const scenarios = testScenarios.all;
+  const nameWidth = Math.max(
+    ...scenarios.map(scenario => scenario.name.length)
+  );
+  for (const scenario of scenarios) {
+    print(`${scenario.name.padEnd(nameWidth)}  ${scenario.description}`);
+  }
+}
+
+/**
+ * Writes a summary of a test run as a line of JSON, for the "json" output
+ * format.
+ */
+function writeJsonSummary(
+  result: TestRunResult | RepeatedTestRunResult,
+  settings: Settings,
+  profileName: string
+): void {
+  writeJsonLine({
+    type: 'summary',
+    outcome: result.outcome,
+    exitCode: exitCodeFromTestOutcome(result.outcome),
+    ...('runs' in result
+      ? {
+          runCount: result.runs.length,
+          passedCount: result.passedCount,
+          failedCount: result.failedCount,
+          runs: result.runs.map(jsonFromTestRunResult)
+        }
+      : jsonFromTestRunResult(result)),
+    latencies: result.latencies.statistics(),
+    sdkVersion: SDK_VERSION,
+    profile: profileName,
+    settings: settings.displayValues
+  });
+}
+
+/**
+ * Writes a summary of a test run that was cancelled, and did not finish, as a
+ * line of JSON, for the "json" output format.
+ */
+function writeForcedExitJsonSummary(
+  elapsedMillis: number,
+  cancellationReason: string,
+  settings: Settings,
+  profileName: string
+): void {
+  writeJsonLine({
+    type: 'summary',
+    outcome: 'cancelled',
+    exitCode: ExitCode.CANCELLED,
+    elapsedMillis,
+    cancellationReason,
+    sdkVersion: SDK_VERSION,
+    profile: profileName,
+    settings: settings.displayValues
+  });
+}
+
+/** Returns the JSON representation of the result of one run of a test. */
+function jsonFromTestRunResult(result: TestRunResult): object {
+  const error = result.error;
+  return {
+    outcome: result.outcome,
+    elapsedMillis: result.elapsedMillis,
+    assertionCount: result.assertionCount,
+    cancellationReason: result.cancellationReason ?? null,
+    error:
+      error === undefined
+        ? null
+        : error instanceof Error
+        ? {
+            name: error.name,
+            code: (error as { code?: unknown }).code ?? null,
+            message: error.message,
+            stack: error.stack ?? null
+          }
+        : { name: null, code: null, message: `${error}`, stack: null }
+  };
+}
+
+/**
+ * Sets up the `Firestore` instance and runs the test selected by the
+ * command-line arguments.
  */
 async function go() {
   setHasher(new HasherImpl());
@@ -97,38 +231,113 @@ async function go() {
   initializeLogging();
 
   const parsedArgs = parseArgs();
-  const settings = Settings.load(new MemorySettingsStorage());
-  updateSettingsFromParsedArgs(parsedArgs, settings);
+  if (parsedArgs.output !== undefined) {
+    setOutputFormat(parsedArgs.output);
+  }
+  if (parsedArgs.listTests) {
+    // In "json" format, stdout is reserved for JSON lines.
+    printTestScenarios(
+      parsedArgs.output === 'json' ? console.error : console.log
+    );
+    return;
+  }
 
-  const startTime: DOMHighResTimeStamp = performance.now();
-  log(`Test Started`);
+  const profileName = parsedArgs.profile ?? DEFAULT_PROFILE_NAME;
+  let settingsStorage: SettingsStorage;
   try {
-    const dbInfo = getFirestore(settings);
-    const env: TestEnvironment = {
-      ...dbInfo,
-      getFirestore(instanceId: number): Firestore {
-        return getFirestore(settings, instanceId).db;
-      }
-    };
-
-    try {
-      await runTheTest(env.db, env);
-    } finally {
-      log('Terminating Firestore');
-      await terminate(env.db);
+    const fileStorage = new FileSettingsStorage(
+      parsedArgs.settingsFile ?? defaultSettingsFilePath()
+    );
+    if (!fileStorage.isEmpty) {
+      log(`Loaded settings from ${fileStorage.filePath}`);
+    }
+    const profiles = new SettingsProfiles(fileStorage);
+    if (parsedArgs.save && !profiles.has(profileName)) {
+      profiles.create(profileName);
+    }
+    settingsStorage = profiles.storageFor(profileName);
+    if (parsedArgs.save) {
+      saveSettingsFromParsedArgs(
+        parsedArgs,
+        settingsStorage,
+        `${fileStorage.filePath} (settings profile: ${profileName})`
+      );
     }
   } catch (e) {
-    if (e instanceof Error) {
-      log(`ERROR: ${e.message}`, { alsoLogToConsole: false });
-      console.log(e.stack);
+    console.error(e instanceof Error ? e.message : e);
+    process.exitCode = ExitCode.CONFIGURATION_ERROR;
+    return;
+  }
+
+  const settings = Settings.load(settingsStorage);
+  updateSettingsFromEnvironmentVariables(settings);
+  updateSettingsFromParsedArgs(parsedArgs, settings);
+
+  // The Firestore SDK writes its debug log messages to stdout itself, which
+  // would interleave them with the JSON lines.
+  if (parsedArgs.output === 'json' && settings.debugLogEnabled.value) {
+    console.error(
+      'Firestore debug logging cannot be enabled with "--output json"; ' +
+        'specify --quiet to disable it'
+    );
+    process.exitCode = ExitCode.CONFIGURATION_ERROR;
+    return;
+  }
+
+  const cancellationTokenSource = new CancellationTokenSource();
+  const restoreSignalHandling = cancelOnSignals(
+    cancellationTokenSource,
+    (elapsedMillis, cancellationReason) => {
+      if (parsedArgs.output === 'json') {
+        writeForcedExitJsonSummary(
+          elapsedMillis,
+          cancellationReason,
+          settings,
+          profileName
+        );
+      }
+    }
+  );
+  const cancellationToken = cancellationTokenSource.cancellationToken;
+  let result: TestRunResult | RepeatedTestRunResult;
+  try {
+    if (parsedArgs.repeat !== undefined || parsedArgs.untilFailure) {
+      result = await runTestRepeatedly(testScenarios, settings, {
+        cancellationToken,
+        profileName,
+        maxRunCount: parsedArgs.repeat ?? null,
+        untilFailure: parsedArgs.untilFailure ?? false
+      });
     } else {
-      log(`ERROR: ${e}`);
+      result = await runTest(testScenarios, settings, {
+        cancellationToken,
+        profileName,
+        // All instances, including any additional ones created by the test,
+        // are terminated below.
+        terminateFirestore: false
+      });
     }
+  } finally {
+    restoreSignalHandling();
   }
-  const endTime: DOMHighResTimeStamp = performance.now();
-  const elapsedTimeStr = formatElapsedTime(startTime, endTime);
-  log(`Test completed in ${elapsedTimeStr}`);
+
+  // Terminate the Firestore instances so that they do not keep the process
+  // alive after the test completes.
+  await terminateAllFirestoreInstances();
+
+  if (parsedArgs.output === 'json') {
+    writeJsonSummary(result, settings, profileName);
+  }
+
+  // Set the exit code, rather than calling `process.exit()`, so that the
+  // process exits after any pending output is written.
+  process.exitCode = exitCodeFromTestOutcome(result.outcome);
 }
 
 // Run the program!
-go();
+go().catch(e => {
+  // The test itself does not throw, so this is an unexpected error in this
+  // program, such as failing to write the output.
+  console.error(e);
+  process.exitCode = ExitCode.FAILED;
+});
@@ -14,14 +14,103 @@
  * limitations under the License.
  */
 
-import { LogMessage, setLogFunction } from '../common/logging.js';
+import { LogLevel, LogMessage, setLogFunction } from '../common/logging.js';
+
+/**
+ * The formats in which log messages can be written to stdout.
+ *
+ * "text" writes human-readable lines; "json" writes one JSON object per line
+ * (aka "NDJSON").
+ */
+export type OutputFormat = 'text' | 'json';
+
+/** All output formats. */
+export const OUTPUT_FORMATS: ReadonlyArray<OutputFormat> = ['text', 'json'];
+
+// The format in which log messages are written, set by `setOutputFormat()`.
+let outputFormat: OutputFormat = 'text';
+
+// The ANSI escape sequence that resets the text color to the default.
+const ANSI_RESET = '\x1b[0m';
+
+// Whether to colorize log messages based on their level; this is only done if
+// stdout is a terminal, and respects the NO_COLOR convention
+// (https://no-color.org).
+const colorEnabled =
+  process.stdout.isTTY === true && process.env.NO_COLOR === undefined;
+
+// Returns the ANSI escape sequence that sets the text color for a log level, or
+// the empty string if messages of the given level are not colorized.
+function ansiColorFromLogLevel(level: LogLevel): string {
+  switch (level) {
+    case 'debug':
+      return '\x1b[90m'; // gray
+    case 'info':
+      return '';
+    case 'warn':
+      return '\x1b[33m'; // yellow
+    case 'error':
+      return '\x1b[31m'; // red
+  }
+}
+
+// Returns the text with which to prefix a log message of the given level, so
+// that warnings and errors stand out even when the output is not colorized.
+function prefixFromLogLevel(level: LogLevel): string {
+  switch (level) {
+    case 'warn':
+      return 'WARNING: ';
+    case 'error':
+      return 'ERROR: ';
+    default:
+      return '';
+  }
+}
 
 // The function to use to perform logging in node.
 function nodeLog(message: LogMessage): void {
-  console.log(`${message.timestamp} ${message.text}`);
+  if (outputFormat === 'json') {
+    writeJsonLine({
+      type: 'log',
+      timestamp: message.timestamp,
+      level: message.level,
+      tag: message.tag,
+      text: message.text,
+      options: message.options
+    });
+    return;
+  }
+
+  // Tagged messages were already written to the console by their component.
+  if (message.tag !== undefined) {
+    return;
+  }
+
+  const line =
+    `${message.timestamp} ` +
+    prefixFromLogLevel(message.level) +
+    (message.tag === undefined ? '' : `[${message.tag}] `) +
+    message.text;
+  const color = colorEnabled ? ansiColorFromLogLevel(message.level) : '';
+  console.log(color === '' ? line : color + line + ANSI_RESET);
 }
 
 // Initialize the logging framework with node logging.
 export function initialize(): void {
   setLogFunction(nodeLog);
 }
+
+/**
+ * Sets the format in which log messages are written to stdout.
+ *
+ * In "json" format, stdout is reserved for the JSON lines written by this
+ * module, so any other output must be written to stderr.
+ */
+export function setOutputFormat(format: OutputFormat): void {
+  outputFormat = format;
+}
+
+/** Writes the given object to stdout as a single line of JSON. */
+export function writeJsonLine(value: object): void {
+  process.stdout.write(JSON.stringify(value) + '\n');
+}
@@ -0,0 +1,117 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CancellationTokenSource } from '../common/cancellation_token.js';
+import { terminateAllFirestoreInstances } from '../common/firestore_helper.js';
+import { logError, logWarn } from '../common/logging.js';
+import { formatElapsedTime } from '../common/util.js';
+import { ExitCode } from './exit_code.js';
+
+/** The signals upon which the test is cancelled. */
+const CANCELLATION_SIGNALS: ReadonlyArray<NodeJS.Signals> = [
+  'SIGINT',
+  'SIGTERM'
+];
+
+/**
+ * The number of milliseconds that a cancelled test is given to finish before
+ * the process exits anyway.
+ */
+const GRACE_PERIOD_MILLIS = 5000;
+
+/**
+ * Cancels the given source when the process receives SIGINT (e.g. Ctrl-C) or
+ * SIGTERM, instead of exiting immediately, so that the test can log where it
+ * was, delete the data that it created and release its resources.
+ *
+ * If the test does not finish within a grace period of being cancelled then
+ * every `Firestore` instance is terminated and the process exits with
+ * `ExitCode.CANCELLED`; a second signal exits immediately. Either way, the
+ * time for which the test ran is logged, and `onForcedExit` is invoked, before
+ * the process exits.
+ *
+ * @param cancellationTokenSource the source to cancel upon receiving a signal.
+ * @param onForcedExit a function to invoke immediately before the process
+ * exits without the test having finished, such as to write a summary of the
+ * run; it is given the number of milliseconds since this function was invoked
+ * and the reason for which the test was cancelled.
+ * @return a function to call once the test has finished, to restore the
+ * default handling of the signals.
+ */
+export function cancelOnSignals(
+  cancellationTokenSource: CancellationTokenSource,
+  onForcedExit: (elapsedMillis: number, cancellationReason: string) => void
+): () => void {
+  const startTime = performance.now();
+  let gracePeriodTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  let cancellationReason = '';
+
+  const forceExit = () => {
+    const endTime = performance.now();
+    logError(
+      `Exiting after ${formatElapsedTime(startTime, endTime)} without the ` +
+        `test finishing`
+    );
+    onForcedExit(endTime - startTime, cancellationReason);
+    process.exit(ExitCode.CANCELLED);
+  };
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (gracePeriodTimeoutId !== null) {
+      logError(`Received ${signal} again; exiting immediately`);
+      forceExit();
+    }
+
+    // Cancel before logging so that the message logged upon cancellation
+    // reports the operation that the test was performing.
+    cancellationReason = `received ${signal}`;
+    cancellationTokenSource.cancel(cancellationReason);
+    logWarn(
+      `Waiting up to ${GRACE_PERIOD_MILLIS / 1000} seconds for the test to ` +
+        `finish; send ${signal} again to exit immediately`
+    );
+
+    gracePeriodTimeoutId = setTimeout(
+      () => exitAfterGracePeriod(forceExit),
+      GRACE_PERIOD_MILLIS
+    );
+    // Don't keep the process alive just for this timer if the test finishes.
+    gracePeriodTimeoutId.unref();
+  };
+
+  CANCELLATION_SIGNALS.forEach(signal => process.on(signal, onSignal));
+
+  return () => {
+    CANCELLATION_SIGNALS.forEach(signal => process.off(signal, onSignal));
+    if (gracePeriodTimeoutId !== null) {
+      clearTimeout(gracePeriodTimeoutId);
+    }
+  };
+}
+
+/**
+ * Terminates every `Firestore` instance and then exits the process via the
+ * given function, for when a cancelled test does not finish within the grace
+ * period.
+ */
+async function exitAfterGracePeriod(forceExit: () => void): Promise<void> {
+  logError(
+    `The test did not finish within ${GRACE_PERIOD_MILLIS / 1000} seconds ` +
+      `of being cancelled`
+  );
+  await terminateAllFirestoreInstances();
+  forceExit();
+}
@@ -40,6 +40,7 @@ import {
 
 import { log } from './common/logging.js';
 import { TestEnvironment } from './common/test_environment';
+import { TestScenario } from './common/test_scenario';
 import {
   createDocument,
   createDocuments,
@@ -48,42 +49,60 @@ import {
 } from './common/util.js';
 
 /**
- * Runs the test.
+ * The "scratchpad" test, which is selected by default.
  *
- * Replace the body of this function with the code you would like to execute
- * when the user clicks the "Run Test" button in the UI.
- *
- * @param db the `Firestore` instance to use.
- * @param env extra information about the given Firestore instance and some
- * helper methods.
+ * Replace the body of the `run()` method with the code you would like to
+ * execute when the user clicks the "Run Test" button in the UI. To keep a test
+ * around permanently, alongside others, add it to the `src/scenarios`
+ * directory instead.
  */
-export async function runTheTest(
-  db: Firestore,
-  env: TestEnvironment
-): Promise<void> {
-  const collectionRef = createEmptyCollection(db, 'v9web-demo-');
-  const createdDocumentData = { foo: generateValue() };
-  const documentRef = await createDocument(
-    collectionRef,
-    'doc1',
-    createdDocumentData
-  );
-  env.cancellationToken?.throwIfCancelled();
+export const runTheTest: TestScenario = {
+  name: 'run_the_test',
+  description: 'The scratchpad test defined in src/run_the_test.ts.',
+
+  /**
+   * Runs the test.
+   *
+   * @param env the environment in which to run the test, including the main
+   * `Firestore` instance to use and some helper methods.
+   */
+  async run(env: TestEnvironment): Promise<void> {
+    const collectionRef = createEmptyCollection(env.db, 'v9web-demo-');
+    const createdDocumentData = { foo: generateValue() };
+    const documentRef = await createDocument(
+      collectionRef,
+      'doc1',
+      createdDocumentData
+    );
+    env.cancellationToken?.throwIfCancelled();
 
-  log(`getDoc(${documentRef.id})`);
-  const snapshot1 = await getDoc(documentRef);
-  log(
-    `getDoc(${documentRef.id}) returned: ${JSON.stringify(snapshot1.data())}`
-  );
-  env.cancellationToken?.throwIfCancelled();
+    log(`getDoc(${documentRef.id})`);
+    const snapshot1 = await getDoc(documentRef);
+    log(
+      `getDoc(${documentRef.id}) returned: ${JSON.stringify(snapshot1.data())}`
+    );
+    env.assert.deepEqual(
+      snapshot1.data(),
+      createdDocumentData,
+      `getDoc(${documentRef.id}) returns the created data`
+    );
+    env.cancellationToken?.throwIfCancelled();
 
-  const dataToSet = { foo: createdDocumentData.foo + '-NEW' };
-  log(`setDoc(${documentRef.id}, ${JSON.stringify(dataToSet)})`);
-  await setDoc<DocumentData>(documentRef, dataToSet);
-  env.cancellationToken?.throwIfCancelled();
+    const dataToSet = { foo: createdDocumentData.foo + '-NEW' };
+    log(`setDoc(${documentRef.id}, ${JSON.stringify(dataToSet)})`);
+    await setDoc<DocumentData>(documentRef, dataToSet);
+    env.cancellationToken?.throwIfCancelled();
 
-  log(`getDoc(${documentRef.id})`);
-  const snapshot = await getDoc(documentRef);
-  log(`getDoc(${documentRef.id}) returned: ${JSON.stringify(snapshot.data())}`);
-  env.cancellationToken?.throwIfCancelled();
-}
+    log(`getDoc(${documentRef.id})`);
+    const snapshot = await getDoc(documentRef);
+    log(
+      `getDoc(${documentRef.id}) returned: ${JSON.stringify(snapshot.data())}`
+    );
+    env.assert.deepEqual(
+      snapshot.data(),
+      dataToSet,
+      `getDoc(${documentRef.id}) returns the data that was set`
+    );
+    env.cancellationToken?.throwIfCancelled();
+  }
+};
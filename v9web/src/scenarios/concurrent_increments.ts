@@ -0,0 +1,70 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { doc, getDoc, runTransaction } from '@firebase/firestore';
+
+import { TestEnvironment } from '../common/test_environment';
+import { TestScenario } from '../common/test_scenario';
+import { createDocument, createEmptyCollection } from '../common/util.js';
+
+/**
+ * Increments a counter in a document from every client at the same time using
+ * transactions, then verifies that no increment was lost.
+ *
+ * Run it with the "Concurrent clients" setting (`--clients` in node) greater
+ * than 1 to create contention between the transactions.
+ */
+export const concurrentIncrements: TestScenario = {
+  name: 'concurrent_increments',
+  description:
+    'Increments a counter from every client at once using transactions.',
+
+  async run(env: TestEnvironment): Promise<void> {
+    // Client 0 creates the document, and shares its path with the others.
+    let documentPath: string | null = null;
+    if (env.clientId === 0) {
+      const collectionRef = createEmptyCollection(env.db, 'v9web-demo-');
+      const documentRef = await createDocument(collectionRef, 'counter', {
+        count: 0
+      });
+      documentPath = documentRef.path;
+    }
+    const documentPaths = await env.rendezvous('created', documentPath);
+    const documentRef = doc(env.db, documentPaths[0]!);
+
+    await env.barrier('ready to increment');
+    env.log(`runTransaction() to increment ${documentRef.path}`);
+    const previousCount = await env.measure('runTransaction', () =>
+      runTransaction(env.db, async transaction => {
+        const snapshot = await transaction.get(documentRef);
+        transaction.update(documentRef, { count: snapshot.get('count') + 1 });
+        return snapshot.get('count');
+      })
+    );
+    env.log(
+      `runTransaction() completed; the previous count was ${previousCount}`
+    );
+
+    await env.barrier('incremented');
+    env.log(`getDoc(${documentRef.path})`);
+    const snapshot = await env.measure('getDoc', () => getDoc(documentRef));
+    env.assert.deepEqual(
+      snapshot.data(),
+      { count: env.clientCount },
+      'every client incremented the counter exactly once'
+    );
+  }
+};
@@ -0,0 +1,46 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  DEFAULT_TEST_SCENARIO_NAME,
+  TestScenarioRegistry
+} from '../common/test_scenario.js';
+import { runTheTest } from '../run_the_test.js';
+import { concurrentIncrements } from './concurrent_increments.js';
+import { listenToDocument } from './listen_to_document.js';
+import { writeWhileOffline } from './write_while_offline.js';
+
+/**
+ * Creates and returns a registry populated with all known tests.
+ *
+ * To make a new test available to the user, create a file for it in this
+ * directory and register it here.
+ */
+function createTestScenarioRegistry(): TestScenarioRegistry {
+  const registry = new TestScenarioRegistry();
+  registry.register(runTheTest);
+  registry.register(listenToDocument);
+  registry.register(writeWhileOffline);
+  registry.register(concurrentIncrements);
+
+  // Verify that the default test is registered, so that it can be run.
+  registry.get(DEFAULT_TEST_SCENARIO_NAME);
+
+  return registry;
+}
+
+/** All of the tests known to this application. */
+export const testScenarios = createTestScenarioRegistry();
@@ -0,0 +1,67 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { setDoc } from '@firebase/firestore';
+
+import { log } from '../common/logging.js';
+import { recordSnapshots } from '../common/snapshot_recorder.js';
+import { TestEnvironment } from '../common/test_environment';
+import { TestScenario } from '../common/test_scenario';
+import {
+  createDocument,
+  createEmptyCollection,
+  generateValue
+} from '../common/util.js';
+
+/**
+ * Registers a snapshot listener on a document, updates the document, then waits
+ * for the listener to be notified of the update.
+ */
+export const listenToDocument: TestScenario = {
+  name: 'listen_to_document',
+  description: 'Listens to a document and waits to be notified of an update.',
+
+  async run(env: TestEnvironment): Promise<void> {
+    const collectionRef = createEmptyCollection(env.db, 'v9web-demo-');
+    const documentRef = await createDocument(collectionRef, 'doc1', {
+      foo: generateValue()
+    });
+    env.cancellationToken?.throwIfCancelled();
+
+    const snapshots = recordSnapshots(env, documentRef);
+    await snapshots.waitFor(
+      event => !event.fromCache,
+      'initial snapshot from the server'
+    );
+
+    const newValue = generateValue() + '-NEW';
+    const dataToSet = { foo: newValue };
+    log(`setDoc(${documentRef.id}, ${JSON.stringify(dataToSet)})`);
+    await env.measure('setDoc', () => setDoc(documentRef, dataToSet));
+    env.cancellationToken?.throwIfCancelled();
+
+    const event = await snapshots.waitFor(
+      event =>
+        event.snapshot.get('foo') === newValue && !event.hasPendingWrites,
+      'the update to be acknowledged'
+    );
+    env.assert.deepEqual(
+      event.snapshot.data(),
+      dataToSet,
+      'the snapshot contains the new data'
+    );
+  }
+};
@@ -0,0 +1,79 @@
+/**
+ * Copyright 2022 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { setDoc } from '@firebase/firestore';
+
+import { log } from '../common/logging.js';
+import { recordSnapshots } from '../common/snapshot_recorder.js';
+import { TestEnvironment } from '../common/test_environment';
+import { TestScenario } from '../common/test_scenario';
+import {
+  createDocument,
+  createEmptyCollection,
+  generateValue
+} from '../common/util.js';
+
+/**
+ * Updates a document while offline, then goes back online and waits for the
+ * update to be acknowledged by the server.
+ */
+export const writeWhileOffline: TestScenario = {
+  name: 'write_while_offline',
+  description: 'Updates a document while offline, then reconnects.',
+
+  async run(env: TestEnvironment): Promise<void> {
+    const collectionRef = createEmptyCollection(env.db, 'v9web-demo-');
+    const documentRef = await createDocument(collectionRef, 'doc1', {
+      foo: generateValue()
+    });
+    env.cancellationToken?.throwIfCancelled();
+
+    const snapshots = recordSnapshots(env, documentRef);
+    await env.network.goOffline();
+
+    const dataToSet = { foo: generateValue() + '-OFFLINE' };
+    log(`setDoc(${documentRef.id}, ${JSON.stringify(dataToSet)})`);
+    // The promise returned from setDoc() does not resolve until the write is
+    // acknowledged by the server, which cannot happen while offline.
+    const setDocPromise = setDoc(documentRef, dataToSet);
+    const pendingWriteEvent = await snapshots.waitFor(
+      event =>
+        event.hasPendingWrites && event.snapshot.get('foo') === dataToSet.foo,
+      'the pending write to be raised locally'
+    );
+    env.cancellationToken?.throwIfCancelled();
+
+    await env.network.goOnline();
+    await setDocPromise;
+    log(`setDoc(${documentRef.id}) completed`);
+
+    // Only consider snapshots raised after the pending write, since those
+    // raised before going offline also come from the server, but contain the
+    // old data.
+    const event = await snapshots.waitFor(
+      event =>
+        event.index > pendingWriteEvent.index &&
+        !event.hasPendingWrites &&
+        !event.fromCache,
+      'the write to be acknowledged'
+    );
+    env.assert.deepEqual(
+      event.snapshot.data(),
+      dataToSet,
+      'the snapshot contains the data written while offline'
+    );
+  }
+};